@@ -2,6 +2,7 @@
 const config = {
   experimental: {
     typedRoutes: false, // Simplified to avoid potential issues
+    serverComponentsExternalPackages: ["sql.js"], // Loads its WebAssembly binary from node_modules at runtime
   },
 };
 
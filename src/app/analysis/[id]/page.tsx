@@ -0,0 +1,9 @@
+import { SharedAnalysis } from "@/components/shared-analysis";
+
+export default function SharedAnalysisPage({ params }: { params: { id: string } }) {
+  return (
+    <div className="h-screen">
+      <SharedAnalysis analysisId={params.id} />
+    </div>
+  );
+}
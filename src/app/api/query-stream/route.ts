@@ -0,0 +1,61 @@
+import { TRPCError } from "@trpc/server";
+import { type Unsubscribable } from "@trpc/server/observable";
+import { type NextRequest } from "next/server";
+
+import { createCaller } from "@/server/api/root";
+import { createTRPCContext } from "@/server/api/trpc";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-sent events bridge for the `data.streamQuery` subscription.
+ * tRPC's fetch adapter only serves queries and mutations, so the subscription is called directly and
+ * every emitted event is forwarded as an SSE `data:` line. The stream ends after the `result` event.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const caller = createCaller(await createTRPCContext({ headers: req.headers }));
+
+  let events: Awaited<ReturnType<typeof caller.data.streamQuery>>;
+  try {
+    events = await caller.data.streamQuery(body?.json ?? body);
+  } catch (error) {
+    const status = error instanceof TRPCError && error.code === "BAD_REQUEST" ? 400 : 500;
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to start query stream" },
+      { status }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let subscription: Unsubscribable | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (payload: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+
+      subscription = events.subscribe({
+        next: (event) => write(event),
+        error: (error) => {
+          write({ type: "error", error: error instanceof Error ? error.message : "Query stream failed" });
+          controller.close();
+        },
+        complete: () => controller.close(),
+      });
+
+      // Stop generating when the browser goes away; unsubscribing aborts the LLM request in progress
+      req.signal.addEventListener("abort", () => subscription?.unsubscribe());
+    },
+    cancel() {
+      subscription?.unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
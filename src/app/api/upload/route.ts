@@ -0,0 +1,82 @@
+import { type NextRequest } from "next/server";
+
+import { appendChunk, cancelUpload, finishUpload, startUpload } from "@/server/import/upload-sessions";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Chunked file upload (CSV, TSV, JSON, NDJSON, Excel or Parquet). The client posts the file as a sequence of
+ * multipart/form-data requests, each with a `chunk` blob and its `index`; the first request (no `uploadId`)
+ * also sends `filename` and `size` and starts the upload. The request flagged `final` returns the dataset in
+ * the same shape as `data.getDataset` - or, for a workbook with several sheets, `needsSheet` and the sheets,
+ * after which a request with just `uploadId`, `sheet` and `final` picks one. DELETE with `?uploadId=`
+ * abandons an upload.
+ */
+export async function POST(req: NextRequest) {
+  const form = await req.formData().catch(() => null);
+  const chunk = form?.get("chunk");
+  const index = Number(form?.get("index"));
+  const sheet = form?.get("sheet");
+  // Choosing a sheet finishes an upload whose chunks have all been sent
+  const choosingSheet = typeof sheet === "string" && !chunk && !!form?.get("uploadId");
+
+  if (!form || (!choosingSheet && (!(chunk instanceof Blob) || !Number.isInteger(index) || index < 0))) {
+    return Response.json({ success: false, error: "Expected multipart form data with a chunk and its index" }, { status: 400 });
+  }
+
+  try {
+    let uploadId = String(form.get("uploadId") || "");
+    if (!uploadId) {
+      const started = await startUpload(String(form.get("filename") || ""), Number(form.get("size")) || 0);
+      if (!started.success) {
+        return Response.json({ success: false, error: started.error }, { status: started.status });
+      }
+      uploadId = started.uploadId;
+    }
+
+    if (chunk instanceof Blob) {
+      const appended = await appendChunk(uploadId, index, new Uint8Array(await chunk.arrayBuffer()));
+      if (!appended.success) {
+        return Response.json(
+          { success: false, error: appended.error, expectedIndex: appended.expectedIndex },
+          { status: appended.status }
+        );
+      }
+
+      if (form.get("final") !== "true") {
+        return Response.json(appended);
+      }
+    }
+
+    const finished = await finishUpload(uploadId, typeof sheet === "string" && sheet ? sheet : undefined);
+    if (!finished.success) {
+      return Response.json({ success: false, error: finished.error }, { status: finished.status });
+    }
+    if (finished.needsSheet) {
+      return Response.json({ success: true, uploadId, needsSheet: true, sheets: finished.sheets });
+    }
+
+    return Response.json({
+      success: true,
+      uploadId,
+      datasetId: finished.meta.id,
+      name: finished.meta.name,
+      filename: finished.meta.filename,
+      schema: finished.meta.schema,
+      rowCount: finished.meta.rowCount,
+      preview: finished.preview,
+    });
+  } catch (error) {
+    console.error("Error processing upload chunk:", error);
+    return Response.json(
+      { success: false, error: "An unexpected error occurred while processing the upload.", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const uploadId = req.nextUrl.searchParams.get("uploadId") || "";
+  const cancelled = await cancelUpload(uploadId);
+  return Response.json({ success: cancelled }, { status: cancelled ? 200 : 404 });
+}
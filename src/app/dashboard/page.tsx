@@ -0,0 +1,9 @@
+import { Dashboard } from "@/components/dashboard";
+
+export default function DashboardPage() {
+  return (
+    <div className="h-screen">
+      <Dashboard />
+    </div>
+  );
+}
@@ -2,10 +2,13 @@ import { DataProvider } from "@/components/data-provider";
 import { Sidebar } from "@/components/sidebar";
 import { QueryInterface } from "@/components/query-interface";
 import { AnalysisPanel } from "@/components/analysis-panel";
+import { AnalysisFork } from "@/components/analysis-fork";
 
-export default function HomePage() {
+// ?fork=<analysis id> opens an editable copy of a shared analysis
+export default function HomePage({ searchParams }: { searchParams: { fork?: string } }) {
   return (
     <DataProvider>
+      {searchParams.fork && <AnalysisFork analysisId={searchParams.fork} />}
       <div className="h-screen bg-slate-50 flex overflow-hidden">
         <Sidebar />
         
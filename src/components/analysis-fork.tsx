@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { useData, type Filter } from "@/components/data-provider";
+import { tRPCClient, type FilterOption, type QueryFilter } from "@/lib/trpc-client";
+
+// Panel filters set to a saved analysis's filters; columns that can no longer be filtered are dropped
+function toPanelFilters(saved: QueryFilter[], options: FilterOption[]): Filter[] {
+  return saved.flatMap((filter): Filter[] => {
+    const option = options.find(o => o.column === filter.column && o.type === filter.type);
+    if (!option) return [];
+
+    if (filter.type === "category" && option.type === "category") {
+      return [{ ...option, selectedValues: filter.values }];
+    }
+    if (filter.type === "date" && option.type === "date") {
+      return [{ ...option, startDate: filter.start, endDate: filter.end }];
+    }
+    if (filter.type === "numeric" && option.type === "numeric") {
+      return [{ ...option, minValue: filter.min, maxValue: filter.max }];
+    }
+    return [];
+  });
+}
+
+// Loads a shared analysis into the chat as an editable session: its dataset, linked datasets, filters and
+// result. Rendered by the home page when it is opened with ?fork=<analysis id>.
+export function AnalysisFork({ analysisId }: { analysisId: string }) {
+  const router = useRouter();
+  const { setCurrentDataset, linkedDatasets, toggleLinkedDataset, setFilters, addMessage } = useData();
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    (async () => {
+      try {
+        const shared = await tRPCClient.getSharedAnalysis(analysisId);
+        if (!shared.success) {
+          addMessage({ type: "assistant", content: `❌ Couldn't open the shared analysis: ${shared.error}` });
+          return;
+        }
+
+        const analysis = shared.analysis;
+        const dataset = await tRPCClient.getDataset(analysis.datasetId);
+        if (!dataset.success) {
+          addMessage({ type: "assistant", content: `❌ Couldn't open the shared analysis: ${dataset.error}` });
+          return;
+        }
+
+        setCurrentDataset({
+          id: dataset.datasetId,
+          name: dataset.name,
+          schema: dataset.schema || [],
+          rowCount: dataset.rowCount || 0,
+          preview: dataset.preview || [],
+        });
+        for (const linked of shared.linkedDatasets) {
+          if (!linkedDatasets.some(d => d.id === linked.id)) toggleLinkedDataset(linked);
+        }
+
+        // With the panel's filters matching the analysis's, it isn't re-run as soon as it is shown
+        const options = await tRPCClient.getFilterOptions(analysis.datasetId);
+        setFilters(toPanelFilters(analysis.filters ?? [], options.success ? options.options : []));
+
+        addMessage({ type: "user", content: analysis.query });
+        addMessage({
+          type: "assistant",
+          content: `🔗 Opened a copy of a shared analysis on "${shared.datasetName}". Changes made here don't affect the shared link.\n\n**Generated SQL:** \`${shared.sql}\``,
+          data: shared.result,
+          displayType: analysis.displayType,
+          sql: shared.sql,
+          explanations: shared.explanations,
+          originalQuery: analysis.query,
+          chartType: analysis.chartType,
+          chartSpec: analysis.chartSpec,
+          datasetId: analysis.datasetId,
+          baseSql: analysis.sql,
+          filters: analysis.filters ?? [],
+          totalRows: shared.totalRows,
+          nextCursor: shared.nextCursor,
+          analysisId: analysis.id,
+        });
+      } catch (error) {
+        addMessage({
+          type: "assistant",
+          content: `❌ Couldn't open the shared analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      } finally {
+        // Reloading the page shouldn't open another copy
+        router.replace("/");
+      }
+    })();
+  }, [analysisId, router, setCurrentDataset, linkedDatasets, toggleLinkedDataset, setFilters, addMessage]);
+
+  return null;
+}
@@ -1,36 +1,67 @@
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import { Database, Table, BarChart3, Download, ArrowLeft, BarChart, LineChart, PieChart, TableProperties } from "lucide-react";
+import { Database, BarChart3, Download, ArrowLeft, BarChart, LineChart, PieChart, TableProperties, Pencil, Settings2, Pin, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { useData } from "@/components/data-provider";
+import { useData, type DataSchema } from "@/components/data-provider";
 import { DataVisualization } from "@/components/data-visualization";
-import { DynamicChart } from "@/components/dynamic-chart";
+import { ChartEditor } from "@/components/chart-editor";
 import { FilterControls } from "@/components/filter-controls";
+import { DataQualityReport } from "@/components/data-quality-report";
+import { DataGrid } from "@/components/data-grid";
+import { ColumnDescriptionEditor } from "@/components/column-description-editor";
 import { downloadAsCSV, downloadAsPNG, generateExportFilename } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 import { tRPCClient } from "@/lib/trpc-client";
+import { type ColumnDescription, type DataDictionary } from "@/lib/data-dictionary";
+import { defaultChartSpec, type ChartSpec } from "@/lib/chart-spec";
+import { analysisPath } from "@/lib/saved-analysis";
 import { 
   TableSkeleton,
   EmptyState,
   LoadingSpinner
 } from "@/components/ui/loading-states";
 
+// Rows fetched each time "Load more" is clicked under a result table
+const LOAD_MORE_ROWS = 100;
+
 export function AnalysisPanel() {
   const { 
     currentDataset, 
+    setCurrentDataset,
     currentAnalysis, 
+    setCurrentAnalysis,
     analysisMode, 
-    setAnalysisMode 
+    setAnalysisMode,
+    linkedDatasets,
+    filters,
+    setFilters,
+    getQueryFilters
   } = useData();
   
   const [selectedChartType, setSelectedChartType] = useState<"bar" | "line" | "pie">("bar");
   const [selectedViewType, setSelectedViewType] = useState<"chart" | "table">("chart");
-  const [filteredData, setFilteredData] = useState<any[]>([]);
-  const [dynamicChartHtml, setDynamicChartHtml] = useState<string>("");
+  const [isApplyingFilters, setIsApplyingFilters] = useState(false);
+  const [filterError, setFilterError] = useState<string>("");
+  const [updatingColumn, setUpdatingColumn] = useState<string | null>(null);
+  const [columnTypeError, setColumnTypeError] = useState<string>("");
+  const [dictionary, setDictionary] = useState<DataDictionary>({});
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const [isSavingDescription, setIsSavingDescription] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [resultsError, setResultsError] = useState<string>("");
+  const [chartSpec, setChartSpec] = useState<ChartSpec | null>(null);
+  const [isEditingChart, setIsEditingChart] = useState(false);
+  const [pinState, setPinState] = useState<"idle" | "pinning" | "pinned">("idle");
+  const [isSharing, setIsSharing] = useState(false);
+  // Permalink last shared; only shown while it still points at the analysis on screen
+  const [sharedLink, setSharedLink] = useState<{ analysisId: string; url: string; copied: boolean } | null>(null);
   const [isGeneratingChart, setIsGeneratingChart] = useState(false);
   const [chartGenerationError, setChartGenerationError] = useState<string>("");
+  // Without an LLM provider no chart specification can be generated, so stick to the standard charts
+  const [dynamicChartsUnavailable, setDynamicChartsUnavailable] = useState(false);
 
   // Check if we should use dynamic chart generation
   // Now we use dynamic generation for ALL chart types, not just advanced ones
@@ -45,7 +76,7 @@ export function AnalysisPanel() {
 
     setIsGeneratingChart(true);
     setChartGenerationError("");
-    setDynamicChartHtml("");
+    setChartSpec(null);
 
     try {
       // Determine chart type from the analysis or query
@@ -69,17 +100,14 @@ export function AnalysisPanel() {
         originalQuery,
         data,
         schema,
-        chartType
+        chartType,
+        currentDataset.id
       );
 
-      console.log("Chart generation result:", result);
-      console.log("Result success:", result.success);
-      console.log("Result code exists:", !!result.code);
-      console.log("Result code length:", result.code?.length);
-
-      if (result.success && result.code) {
-        setDynamicChartHtml(result.code);
-        console.log("Chart code set successfully, length:", result.code.length);
+      if (result.success && result.spec) {
+        setChartSpec(result.spec);
+      } else if (result.code === "llm_not_configured") {
+        setDynamicChartsUnavailable(true);
       } else {
         console.error("Chart generation failed:", result.error);
         console.error("Result object:", JSON.stringify(result, null, 2));
@@ -93,42 +121,307 @@ export function AnalysisPanel() {
     }
   }, [currentDataset, currentAnalysis]);
 
-  // Initialize filtered data when analysis changes
+  // Initialize the suggested chart type and any streamed chart specification when analysis changes
   useEffect(() => {
-    if (currentAnalysis?.data) {
-      setFilteredData(currentAnalysis.data);
+    if (currentAnalysis?.interpretation?.chartType) {
+      setSelectedChartType(currentAnalysis.interpretation.chartType);
     }
+    setChartSpec(currentAnalysis?.chartSpec || null);
+    setChartGenerationError("");
+    setPinState("idle");
   }, [currentAnalysis]);
 
   // Generate dynamic chart when needed
   useEffect(() => {
     if (!currentAnalysis?.data || !currentAnalysis?.originalQuery) return;
     
-    const dataToUse = filteredData.length > 0 ? filteredData : currentAnalysis.data;
     const useDynamicChart = shouldUseDynamicChart(currentAnalysis.originalQuery);
     
     // Only generate for chart display types, and only if not already generated
     if (useDynamicChart && 
+        !dynamicChartsUnavailable &&
+        !currentAnalysis.chartSpec &&
         currentAnalysis.displayType === "chart" && 
-        !dynamicChartHtml && 
+        !chartSpec && 
         !isGeneratingChart && 
         !chartGenerationError) {
-      generateCustomChart(currentAnalysis.originalQuery, dataToUse, currentDataset?.schema || []);
+      generateCustomChart(currentAnalysis.originalQuery, currentAnalysis.data, currentDataset?.schema || []);
+    }
+  }, [currentAnalysis, chartSpec, isGeneratingChart, chartGenerationError, dynamicChartsUnavailable, currentDataset?.schema, generateCustomChart]);
+
+  // Re-run the analysis on the server whenever the filters differ from the ones it was computed with,
+  // so the filters apply to the dataset rows rather than to the already aggregated result
+  useEffect(() => {
+    if (!currentAnalysis?.originalQuery || !currentDataset?.id) return;
+
+    const queryFilters = getQueryFilters();
+    if (JSON.stringify(queryFilters) === JSON.stringify(currentAnalysis.filters ?? [])) return;
+
+    let cancelled = false;
+    // Let typing in the range inputs settle before querying
+    const timer = setTimeout(async () => {
+      setIsApplyingFilters(true);
+      setFilterError("");
+
+      try {
+        const result = await tRPCClient.processQuery(
+          currentAnalysis.originalQuery || "",
+          currentDataset.id,
+          linkedDatasets.map(d => d.id),
+          undefined,
+          queryFilters,
+          { sql: currentAnalysis.baseSql || currentAnalysis.sql, chartType: selectedChartType }
+        );
+        if (cancelled) return;
+
+        if (!result.success) {
+          setFilterError(result.error || "Failed to apply filters");
+          return;
+        }
+
+        setCurrentAnalysis({
+          ...currentAnalysis,
+          data: result.result,
+          sql: result.sql,
+          explanations: result.explanations,
+          // The same SQL returns the same fields, so a customized chart still fits; others are generated again
+          chartSpec: currentAnalysis.chartSpec,
+          baseSql: result.baseSql,
+          filters: queryFilters,
+          totalRows: result.totalRows,
+          nextCursor: result.nextCursor,
+          analysisId: undefined, // The saved copy has the old filters
+          interpretation: { ...currentAnalysis.interpretation, chartType: selectedChartType, filters: queryFilters },
+        });
+      } catch (error) {
+        if (!cancelled) {
+          setFilterError(`Failed to apply filters: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+      } finally {
+        if (!cancelled) setIsApplyingFilters(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsApplyingFilters(false);
+    };
+  }, [currentAnalysis, currentDataset?.id, linkedDatasets, selectedChartType, getQueryFilters, setCurrentAnalysis]);
+
+  // Persist a column type override; queries, the offline planner and filters all use the updated schema
+  const changeColumnType = async (column: string, type: DataSchema["type"] | null) => {
+    if (!currentDataset) return;
+
+    setUpdatingColumn(column);
+    setColumnTypeError("");
+
+    try {
+      const result = await tRPCClient.setColumnType(currentDataset.id, column, type);
+      if (!result.success) {
+        setColumnTypeError(result.error || "Failed to update column type");
+        return;
+      }
+
+      setCurrentDataset({ ...currentDataset, schema: result.schema });
+      // A filter built for the old type no longer fits the column
+      setFilters(filters.filter(filter => filter.column !== column));
+    } catch (error) {
+      setColumnTypeError(`Failed to update column type: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setUpdatingColumn(null);
     }
-  }, [currentAnalysis, filteredData, dynamicChartHtml, isGeneratingChart, chartGenerationError, currentDataset?.schema, generateCustomChart]);
+  };
 
-  const handleFiltersChange = (newFilteredData: any[]) => {
-    setFilteredData(newFilteredData);
+  // Pin the analysis to the dashboard, where it is re-run against its dataset each time the dashboard opens
+  const pinToDashboard = async () => {
+    if (!currentAnalysis || !currentDataset) return;
+
+    setPinState("pinning");
+    setResultsError("");
+
+    try {
+      const result = await tRPCClient.pinToDashboard({
+        title: currentAnalysis.originalQuery || "Pinned analysis",
+        query: currentAnalysis.originalQuery || "",
+        datasetId: currentDataset.id,
+        joinDatasetIds: linkedDatasets.map(d => d.id),
+        sql: currentAnalysis.baseSql || currentAnalysis.sql,
+        filters: currentAnalysis.filters,
+        displayType: currentAnalysis.displayType,
+        chartType: selectedChartType,
+        chartSpec: currentAnalysis.chartSpec || chartSpec || undefined,
+      });
+      if (!result.success) {
+        setResultsError(result.error || "Failed to pin analysis");
+        setPinState("idle");
+        return;
+      }
+      setPinState("pinned");
+    } catch (error) {
+      setResultsError(`Failed to pin analysis: ${error instanceof Error ? error.message : "Unknown error"}`);
+      setPinState("idle");
+    }
   };
 
-  const exportCSV = () => {
-    if (!currentAnalysis) return;
-    
-    const dataToExport = filteredData.length > 0 ? filteredData : currentAnalysis.data;
-    const baseName = `${currentDataset?.name?.replace(/[^a-zA-Z0-9]/g, '-') || 'analysis'}-results`;
-    const filename = generateExportFilename(baseName, "csv");
-    
-    downloadAsCSV(dataToExport, filename);
+  // Copy a permalink to the analysis. It is saved the first time it is shared; one whose filters, chart or
+  // chart type have been changed since is saved again as it is now
+  const shareAnalysis = async () => {
+    if (!currentAnalysis || !currentDataset) return;
+
+    setIsSharing(true);
+    setResultsError("");
+
+    try {
+      const unchanged = selectedChartType === currentAnalysis.interpretation.chartType &&
+        (chartSpec ?? undefined) === currentAnalysis.chartSpec;
+      let analysisId = unchanged ? currentAnalysis.analysisId : undefined;
+
+      if (!analysisId) {
+        const result = await tRPCClient.saveAnalysis({
+          query: currentAnalysis.originalQuery || "",
+          datasetId: currentDataset.id,
+          joinDatasetIds: linkedDatasets.map(d => d.id),
+          sql: currentAnalysis.baseSql || currentAnalysis.sql,
+          filters: currentAnalysis.filters,
+          displayType: currentAnalysis.displayType,
+          chartType: selectedChartType,
+          chartSpec: currentAnalysis.chartSpec || chartSpec || undefined,
+        });
+        if (!result.success) {
+          setResultsError(result.error || "Failed to share analysis");
+          return;
+        }
+
+        analysisId = result.analysisId as string;
+        setCurrentAnalysis({
+          ...currentAnalysis,
+          chartSpec: currentAnalysis.chartSpec || chartSpec || undefined,
+          analysisId,
+          interpretation: { ...currentAnalysis.interpretation, chartType: selectedChartType },
+        });
+      }
+
+      const url = `${window.location.origin}${analysisPath(analysisId)}`;
+      // Clipboard access can be refused; the link is shown either way
+      const copied = await navigator.clipboard.writeText(url).then(() => true, () => false);
+      setSharedLink({ analysisId, url, copied });
+    } catch (error) {
+      setResultsError(`Failed to share analysis: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // Store an edited chart on the analysis, so exports and later filter re-runs keep it
+  const updateChartSpec = (spec: ChartSpec) => {
+    setChartSpec(spec);
+    setChartGenerationError("");
+    if (currentAnalysis) setCurrentAnalysis({ ...currentAnalysis, chartSpec: spec, analysisId: undefined });
+  };
+
+  // Load the dataset's data dictionary for the schema view
+  useEffect(() => {
+    setDictionary({});
+    setEditingColumn(null);
+    if (!currentDataset?.id) return;
+
+    let cancelled = false;
+    tRPCClient.getDataDictionary(currentDataset.id)
+      .then(result => {
+        if (!cancelled && result.success) setDictionary(result.dictionary || {});
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDataset?.id]);
+
+  // Save a column's description; later questions and charts read the column through it
+  const saveColumnDescription = async (column: string, entry: ColumnDescription) => {
+    if (!currentDataset) return;
+
+    setIsSavingDescription(true);
+    setColumnTypeError("");
+
+    try {
+      const result = await tRPCClient.setColumnDescription(currentDataset.id, column, entry);
+      if (!result.success) {
+        setColumnTypeError(result.error || "Failed to save column description");
+        return;
+      }
+
+      setDictionary(result.dictionary || {});
+      setEditingColumn(null);
+    } catch (error) {
+      setColumnTypeError(`Failed to save column description: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsSavingDescription(false);
+    }
+  };
+
+  // Append the next page of the result; the query is executed again on the server from the returned cursor
+  const loadMoreRows = async () => {
+    if (!currentAnalysis || !currentDataset || currentAnalysis.nextCursor == null) return;
+
+    setIsLoadingMore(true);
+    setResultsError("");
+
+    try {
+      const result = await tRPCClient.queryResults(
+        currentDataset.id,
+        linkedDatasets.map(d => d.id),
+        currentAnalysis.sql,
+        currentAnalysis.nextCursor,
+        LOAD_MORE_ROWS
+      );
+      if (!result.success) {
+        setResultsError(result.error || "Failed to load more rows");
+        return;
+      }
+
+      setCurrentAnalysis({
+        ...currentAnalysis,
+        data: [...currentAnalysis.data, ...result.rows],
+        totalRows: result.totalRows,
+        nextCursor: result.nextCursor,
+        // Keep the chart drawn for the first page rather than generating it again
+        chartSpec: currentAnalysis.chartSpec || chartSpec || undefined,
+      });
+    } catch (error) {
+      setResultsError(`Failed to load more rows: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Export every row of the result, fetching the ones that haven't been loaded into the panel
+  const exportCSV = async () => {
+    if (!currentAnalysis || !currentDataset) return;
+
+    setIsExporting(true);
+    setResultsError("");
+
+    try {
+      let dataToExport = currentAnalysis.data;
+      if (currentAnalysis.nextCursor != null) {
+        const result = await tRPCClient.queryResults(currentDataset.id, linkedDatasets.map(d => d.id), currentAnalysis.sql, 0);
+        if (!result.success) {
+          setResultsError(result.error || "Failed to export results");
+          return;
+        }
+        dataToExport = result.rows;
+      }
+
+      const baseName = `${currentDataset.name?.replace(/[^a-zA-Z0-9]/g, '-') || 'analysis'}-results`;
+      const filename = generateExportFilename(baseName, "csv");
+
+      downloadAsCSV(dataToExport, filename);
+    } catch (error) {
+      setResultsError(`Failed to export results: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const exportPNG = async () => {
@@ -150,20 +443,24 @@ export function AnalysisPanel() {
     }
   };
 
+  // One aggregated value, or several (min, max, median, ...) side by side
   const renderNumberDisplay = (data: any[]) => {
     if (!data || data.length === 0) return null;
     
-    const value = Object.values(data[0])[0] as number;
-    const label = Object.keys(data[0])[0];
+    const entries = Object.entries(data[0]);
     
     return (
-      <div className="text-center py-8" data-chart-container="true">
-        <div className="text-5xl font-bold text-purple-600 mb-2">
-          {typeof value === 'number' ? value.toLocaleString() : value}
-        </div>
-        <div className="text-lg text-slate-600 capitalize">
-          {label.replace(/_/g, ' ')}
-        </div>
+      <div className="flex flex-wrap justify-center gap-x-12 gap-y-6 text-center py-8" data-chart-container="true">
+        {entries.map(([label, value]) => (
+          <div key={label}>
+            <div className={cn("font-bold text-purple-600 mb-2", entries.length > 1 ? "text-3xl" : "text-5xl")}>
+              {typeof value === 'number' ? value.toLocaleString() : value === null ? '-' : String(value)}
+            </div>
+            <div className="text-lg text-slate-600 capitalize">
+              {label.replace(/_/g, ' ')}
+            </div>
+          </div>
+        ))}
       </div>
     );
   };
@@ -199,6 +496,18 @@ export function AnalysisPanel() {
             </tbody>
           </table>
         </div>
+        {currentAnalysis?.totalRows !== undefined && (
+          <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-t border-slate-200 text-sm text-slate-600">
+            <span>
+              {data.length.toLocaleString()} of {currentAnalysis.totalRows.toLocaleString()} rows
+            </span>
+            {currentAnalysis.nextCursor != null && (
+              <Button variant="outline" size="sm" onClick={loadMoreRows} disabled={isLoadingMore}>
+                {isLoadingMore ? "Loading..." : "Load more"}
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     );
   };
@@ -206,17 +515,13 @@ export function AnalysisPanel() {
   const renderChartDisplay = (data: any[]) => {
     if (!data || data.length === 0) return null;
     
-    const dataToUse = filteredData.length > 0 ? filteredData : data;
-    
     // Check if we should use dynamic chart generation
     const originalQuery = currentAnalysis?.originalQuery || "";
     const useDynamicChart = shouldUseDynamicChart(originalQuery);
 
-    const chartConfig = {
-      type: selectedChartType,
-      xField: Object.keys(dataToUse[0] || {})[0] || "x",
-      yField: Object.keys(dataToUse[0] || {})[1] || "y",
-    };
+    // Every numeric column after the category is a measure, drawn as its own series
+    const standardSpec = defaultChartSpec(selectedChartType, data);
+    const columns = Object.keys(data[0] || {});
 
     return (
       <div>
@@ -239,10 +544,29 @@ export function AnalysisPanel() {
             <TableProperties className="w-4 h-4" />
             Table
           </Button>
+          {selectedViewType === "chart" && !isGeneratingChart && (
+            <Button
+              variant={isEditingChart ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsEditingChart(!isEditingChart)}
+              className="flex items-center gap-2 ml-auto"
+            >
+              <Settings2 className="w-4 h-4" />
+              Edit chart
+            </Button>
+          )}
         </div>
 
         {selectedViewType === "chart" ? (
           <div>
+            {isEditingChart && !isGeneratingChart && (
+              <ChartEditor
+                spec={chartSpec ?? standardSpec}
+                columns={columns}
+                numericColumns={columns.filter(field => data.some(row => typeof row[field] === "number"))}
+                onChange={updateChartSpec}
+              />
+            )}
             {useDynamicChart ? (
               <div>
                 {isGeneratingChart ? (
@@ -260,7 +584,7 @@ export function AnalysisPanel() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => generateCustomChart(originalQuery, dataToUse, currentDataset?.schema || [])}
+                          onClick={() => generateCustomChart(originalQuery, data, currentDataset?.schema || [])}
                           className="mr-2"
                         >
                           Retry Dynamic Generation
@@ -270,7 +594,7 @@ export function AnalysisPanel() {
                           size="sm"
                           onClick={() => {
                             setChartGenerationError("");
-                            setDynamicChartHtml("");
+                            setChartSpec(null);
                           }}
                         >
                           Use Standard Charts
@@ -278,9 +602,9 @@ export function AnalysisPanel() {
                       </div>
                     </div>
                   </div>
-                ) : dynamicChartHtml ? (
+                ) : chartSpec ? (
                   <div data-chart-container="true">
-                    <DynamicChart chartCode={dynamicChartHtml} data={dataToUse} />
+                    <DataVisualization data={data} spec={chartSpec} />
                   </div>
                 ) : (
                   // Fallback to standard charts while dynamic generation is loading
@@ -317,8 +641,8 @@ export function AnalysisPanel() {
 
                     <div data-chart-container="true">
                       <DataVisualization
-                        data={dataToUse}
-                        chartConfig={chartConfig}
+                        data={data}
+                        spec={standardSpec}
                       />
                     </div>
                   </div>
@@ -359,15 +683,15 @@ export function AnalysisPanel() {
 
                 <div data-chart-container="true">
                   <DataVisualization
-                    data={dataToUse}
-                    chartConfig={chartConfig}
+                    data={data}
+                    spec={standardSpec}
                   />
                 </div>
               </div>
             )}
           </div>
         ) : (
-          renderTableDisplay(dataToUse)
+          renderTableDisplay(data)
         )}
       </div>
     );
@@ -415,8 +739,8 @@ export function AnalysisPanel() {
 
         <div className="flex-shrink-0">
           <FilterControls 
-            data={currentAnalysis.data} 
-            onFiltersChange={handleFiltersChange}
+            isApplying={isApplyingFilters}
+            error={filterError}
           />
         </div>
 
@@ -425,14 +749,37 @@ export function AnalysisPanel() {
             <h2 className="text-xl font-semibold text-slate-900">Analysis Results</h2>
             
             <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={pinToDashboard}
+                disabled={pinState !== "idle" || !currentAnalysis.originalQuery}
+                className="flex items-center gap-2"
+              >
+                <Pin className="w-4 h-4" />
+                {pinState === "pinning" ? "Pinning..." : pinState === "pinned" ? "Pinned" : "Pin to dashboard"}
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={shareAnalysis}
+                disabled={isSharing || !currentAnalysis.originalQuery}
+                className="flex items-center gap-2"
+              >
+                <Link2 className="w-4 h-4" />
+                {isSharing ? "Sharing..." : "Share"}
+              </Button>
+
               <Button
                 variant="outline"
                 size="sm"
                 onClick={exportCSV}
+                disabled={isExporting}
                 className="flex items-center gap-2"
               >
                 <Download className="w-4 h-4" />
-                Export Data
+                {isExporting ? "Exporting..." : "Export Data"}
               </Button>
               
               {(currentAnalysis.displayType === "chart" && selectedViewType === "chart") || currentAnalysis.displayType === "number" ? (
@@ -448,11 +795,24 @@ export function AnalysisPanel() {
               ) : null}
             </div>
           </div>
+
+          {resultsError && (
+            <p className="text-sm text-red-600 mb-4">{resultsError}</p>
+          )}
+
+          {sharedLink && sharedLink.analysisId === currentAnalysis.analysisId && (
+            <div className="text-sm text-slate-700 p-3 bg-purple-50 rounded mb-4">
+              {sharedLink.copied ? "Link copied. " : "Share this link: "}
+              <a href={sharedLink.url} target="_blank" rel="noreferrer" className="text-purple-700 underline break-all">
+                {sharedLink.url}
+              </a>
+            </div>
+          )}
           
           {currentAnalysis.displayType === "number" ? 
-            renderNumberDisplay(filteredData.length > 0 ? filteredData : currentAnalysis.data) : 
+            renderNumberDisplay(currentAnalysis.data) : 
             currentAnalysis.displayType === "table" ?
-            renderTableDisplay(filteredData.length > 0 ? filteredData : currentAnalysis.data) :
+            renderTableDisplay(currentAnalysis.data) :
             renderChartDisplay(currentAnalysis.data)
           }
         </div>
@@ -460,14 +820,14 @@ export function AnalysisPanel() {
         {currentAnalysis.displayType === "chart" && selectedViewType === "chart" && currentAnalysis.data.length > 0 && (
           <div className="border-t border-slate-200 pt-6">
             <h3 className="font-semibold text-slate-900 mb-3">
-              Raw Data {filteredData.length !== currentAnalysis.data.length && `(${filteredData.length} of ${currentAnalysis.data.length} rows)`}
+              Raw Data
             </h3>
             <div className="border border-slate-200 rounded-lg overflow-hidden">
               <div className="overflow-x-auto max-h-64">
                 <table className="w-full text-sm">
                   <thead className="bg-slate-50">
                     <tr>
-                      {Object.keys((filteredData.length > 0 ? filteredData[0] : currentAnalysis.data[0]) || {}).map((key) => (
+                      {Object.keys(currentAnalysis.data[0] || {}).map((key) => (
                         <th key={key} className="text-left px-3 py-2 font-medium text-slate-700 border-b border-slate-200">
                           {key.replace(/_/g, ' ').toUpperCase()}
                         </th>
@@ -475,7 +835,7 @@ export function AnalysisPanel() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-200">
-                    {(filteredData.length > 0 ? filteredData : currentAnalysis.data).slice(0, 10).map((row, i) => (
+                    {currentAnalysis.data.slice(0, 10).map((row, i) => (
                       <tr key={i} className="hover:bg-slate-50">
                         {Object.values(row).map((value, j) => (
                           <td key={j} className="px-3 py-2 text-slate-900">
@@ -549,24 +909,72 @@ export function AnalysisPanel() {
           <CardTitle className="text-base sm:text-lg">Column Schema</CardTitle>
         </CardHeader>
         <CardContent>
+          {columnTypeError && (
+            <div className="text-sm text-red-600 mb-3">{columnTypeError}</div>
+          )}
           {currentDataset.schema && currentDataset.schema.length > 0 ? (
-            <div className="space-y-2 max-h-64 overflow-y-auto">
+            <div className="space-y-2 max-h-96 overflow-y-auto">
               {currentDataset.schema.map((col) => (
-                <div key={col.name} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-200 hover:bg-slate-100 transition-colors">
-                  <div className="flex-1 min-w-0 mr-3">
-                    <div className="font-medium text-sm text-slate-900 truncate">{col.name}</div>
-                    <div className="text-xs text-slate-500 truncate mt-1">
-                      {col.sample ? `Sample: ${col.sample}` : 'No sample data'}
+                <div key={col.name} className="p-3 bg-slate-50 rounded-lg border border-slate-200 hover:bg-slate-100 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0 mr-3">
+                      <div className="font-medium text-sm text-slate-900 truncate">{col.name}</div>
+                      {(dictionary[col.name]?.description || dictionary[col.name]?.unit) && (
+                        <div className="text-xs text-slate-600 truncate mt-1">
+                          {[dictionary[col.name].description, dictionary[col.name].unit && `(${dictionary[col.name].unit})`].filter(Boolean).join(" ")}
+                        </div>
+                      )}
+                      <div className="text-xs text-slate-500 truncate mt-1">
+                        {col.sample ? `Sample: ${col.sample}` : 'No sample data'}
+                      </div>
+                      {(col.nullable || col.mixed || col.override || dictionary[col.name]?.doNotAggregate) && (
+                        <div className="text-xs text-slate-400 truncate mt-1" title={col.explanation}>
+                          {[
+                            col.override && "type set manually",
+                            dictionary[col.name]?.doNotAggregate && "not aggregated",
+                            col.nullable && `${col.nullCount?.toLocaleString()} empty`,
+                            col.mixed && col.confidence !== undefined && `mixed values, ${Math.round(col.confidence * 100)}% match`,
+                          ].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
                     </div>
+                    <select
+                      value={col.type}
+                      disabled={updatingColumn === col.name}
+                      onChange={(e) => changeColumnType(col.name, e.target.value === "auto" ? null : e.target.value as DataSchema["type"])}
+                      title={col.explanation}
+                      className={cn(
+                        "text-xs px-2 py-1 rounded-full font-medium flex-shrink-0 border-0 cursor-pointer",
+                        col.type === 'number' ? "bg-purple-100 text-purple-700" :
+                        col.type === 'date' ? "bg-blue-100 text-blue-700" :
+                        "bg-slate-200 text-slate-700"
+                      )}
+                    >
+                      <option value="string">string</option>
+                      <option value="number">number</option>
+                      <option value="date">date</option>
+                      <option value="boolean">boolean</option>
+                      {col.override && <option value="auto">reset to inferred</option>}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-1 h-7 w-7 p-0 flex-shrink-0"
+                      title="Describe this column"
+                      onClick={() => setEditingColumn(editingColumn === col.name ? null : col.name)}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
                   </div>
-                  <div className={cn(
-                    "text-xs px-2 py-1 rounded-full font-medium flex-shrink-0",
-                    col.type === 'number' ? "bg-purple-100 text-purple-700" :
-                    col.type === 'date' ? "bg-blue-100 text-blue-700" :
-                    "bg-slate-200 text-slate-700"
-                  )}>
-                    {col.type}
-                  </div>
+                  {editingColumn === col.name && (
+                    <ColumnDescriptionEditor
+                      column={col.name}
+                      entry={dictionary[col.name]}
+                      isSaving={isSavingDescription}
+                      onSave={(entry) => saveColumnDescription(col.name, entry)}
+                      onCancel={() => setEditingColumn(null)}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -578,13 +986,18 @@ export function AnalysisPanel() {
         </CardContent>
       </Card>
 
+      <DataQualityReport />
+
       <Card>
         <CardHeader>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
             <div>
-              <CardTitle className="text-base sm:text-lg">Data Preview</CardTitle>
+              <CardTitle className="text-base sm:text-lg">Data</CardTitle>
               <p className="text-sm text-slate-600">
-                First {Math.min(5, currentDataset.preview?.length || 0)} rows
+                {/* The filter controls are only shown with an analysis, but their filters still apply here */}
+                {getQueryFilters().length > 0
+                  ? "Rows matching the filters set on the analysis view. Click a column to sort"
+                  : "All rows. Click a column to sort"}
               </p>
             </div>
             <Button 
@@ -605,46 +1018,7 @@ export function AnalysisPanel() {
         </CardHeader>
         
         <CardContent>
-          {currentDataset.preview && currentDataset.preview.length > 0 ? (
-            <div className="border border-slate-200 rounded-lg overflow-hidden">
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead className="bg-slate-50">
-                    <tr>
-                      {currentDataset.schema?.map((col) => (
-                        <th key={col.name} className="text-left px-3 py-3 font-medium text-slate-700 border-b border-slate-200 min-w-[100px]">
-                          <div className="truncate">{col.name}</div>
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-200">
-                    {currentDataset.preview.slice(0, 5).map((row, i) => (
-                      <tr key={i} className="hover:bg-slate-50 transition-colors">
-                        {currentDataset.schema?.map((col) => (
-                          <td key={col.name} className="px-3 py-3 text-slate-900 max-w-[150px]">
-                            <div className="truncate" title={String(row[col.name] || '-')}>
-                              {String(row[col.name] || '-')}
-                            </div>
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
-          ) : (
-            <div className="text-center py-8">
-              <EmptyState
-                icon={Table}
-                title="No Preview Data"
-                description="Data preview is not available for this dataset."
-                className="py-4"
-                variant="simple"
-              />
-            </div>
-          )}
+          <DataGrid />
         </CardContent>
       </Card>
       </div>
@@ -0,0 +1,194 @@
+"use client";
+
+import React from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CHART_COLORS, CHART_MARKS, LEGEND_POSITIONS, type ChartSpec } from "@/lib/chart-spec";
+
+type Props = {
+  spec: ChartSpec;
+  columns: string[]; // Fields of the result rows
+  numericColumns: string[];
+  onChange: (spec: ChartSpec) => void;
+};
+
+const SELECT_CLASS = "w-full h-8 rounded-md border border-slate-200 bg-white px-2 text-sm";
+
+// Form over a chart spec; every change is applied straight away so the chart redraws as it is edited
+export function ChartEditor({ spec, columns, numericColumns, onChange }: Props) {
+  const update = (changes: Partial<ChartSpec>) => onChange({ ...spec, ...changes });
+
+  // Pie charts and series splits draw a single measure
+  const singleMeasure = spec.mark === "pie" || spec.series !== undefined;
+
+  const updateY = (index: number, changes: Partial<ChartSpec["y"][number]>) => {
+    update({ y: spec.y.map((y, i) => (i === index ? { ...y, ...changes } : y)) });
+  };
+
+  const addY = () => {
+    const field = numericColumns.find(column => !spec.y.some(y => y.field === column)) ?? numericColumns[0] ?? columns[0];
+    update({ y: [...spec.y, { field, aggregate: "none" }] });
+  };
+
+  const changeMark = (mark: ChartSpec["mark"]) => {
+    update(mark === "pie" ? { mark, y: spec.y.slice(0, 1), series: undefined, yAxis: undefined } : { mark });
+  };
+
+  const changeSeries = (field: string) => {
+    update(field ? { series: { field }, y: spec.y.slice(0, 1) } : { series: undefined });
+  };
+
+  const sortValue = spec.sort ? `${spec.sort.by}-${spec.sort.order}` : "";
+  const changeSort = (value: string) => {
+    const [by, order] = value.split("-") as ["x" | "y", "asc" | "desc"];
+    update({ sort: value ? { by, order } : undefined });
+  };
+
+  return (
+    <div className="space-y-4 p-4 mb-4 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Chart type</Label>
+          <select value={spec.mark} onChange={e => changeMark(e.target.value as ChartSpec["mark"])} className={SELECT_CLASS}>
+            {CHART_MARKS.map(mark => <option key={mark} value={mark}>{mark}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">X axis</Label>
+          <select value={spec.x.field} onChange={e => update({ x: { ...spec.x, field: e.target.value } })} className={SELECT_CLASS}>
+            {columns.map(column => <option key={column} value={column}>{column}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">X axis label</Label>
+          <Input
+            value={spec.x.label ?? ""}
+            onChange={e => update({ x: { ...spec.x, label: e.target.value || undefined } })}
+            placeholder={spec.x.field}
+            className="h-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-slate-600">Series</Label>
+        {spec.y.map((y, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select value={y.field} onChange={e => updateY(index, { field: e.target.value })} className={SELECT_CLASS}>
+              {columns.map(column => <option key={column} value={column}>{column}</option>)}
+            </select>
+            <Input
+              value={y.label ?? ""}
+              onChange={e => updateY(index, { label: e.target.value || undefined })}
+              placeholder="Label"
+              className="h-8 text-sm"
+            />
+            {!spec.series && spec.mark !== "pie" && (
+              <input
+                type="color"
+                value={y.color ?? spec.colors?.[index] ?? CHART_COLORS[index % CHART_COLORS.length]}
+                onChange={e => updateY(index, { color: e.target.value })}
+                className="h-8 w-10 flex-shrink-0 rounded border border-slate-200 bg-white cursor-pointer"
+                title="Series colour"
+              />
+            )}
+            {spec.y.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 flex-shrink-0"
+                onClick={() => update({ y: spec.y.filter((_, i) => i !== index) })}
+                title="Remove series"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {!singleMeasure && spec.y.length < 8 && (
+          <Button variant="outline" size="sm" onClick={addY} className="flex items-center gap-1">
+            <Plus className="h-3 w-3" />
+            Add series
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {spec.mark !== "pie" && (
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-600">Split by</Label>
+            <select value={spec.series?.field ?? ""} onChange={e => changeSeries(e.target.value)} className={SELECT_CLASS}>
+              <option value="">none</option>
+              {columns.filter(column => column !== spec.x.field).map(column => <option key={column} value={column}>{column}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Sort</Label>
+          <select value={sortValue} onChange={e => changeSort(e.target.value)} className={SELECT_CLASS}>
+            <option value="">as returned</option>
+            <option value="x-asc">x ascending</option>
+            <option value="x-desc">x descending</option>
+            <option value="y-asc">value ascending</option>
+            <option value="y-desc">value descending</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Legend</Label>
+          <select
+            value={spec.legend ?? (spec.mark === "pie" ? "none" : "bottom")}
+            onChange={e => update({ legend: e.target.value as ChartSpec["legend"] })}
+            className={SELECT_CLASS}
+          >
+            {LEGEND_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Title</Label>
+          <Input
+            value={spec.title ?? ""}
+            onChange={e => update({ title: e.target.value || undefined })}
+            placeholder="No title"
+            className="h-8 text-sm"
+          />
+        </div>
+        {spec.mark !== "pie" && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-600">Y axis label</Label>
+              <Input
+                value={spec.yAxis?.label ?? ""}
+                onChange={e => update({ yAxis: { scale: spec.yAxis?.scale ?? "linear", label: e.target.value || undefined } })}
+                placeholder="No label"
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-600">Y axis scale</Label>
+              <select
+                value={spec.yAxis?.scale ?? "linear"}
+                onChange={e => update({ yAxis: { ...spec.yAxis, scale: e.target.value as "linear" | "log" } })}
+                className={SELECT_CLASS}
+              >
+                <option value="linear">linear</option>
+                <option value="log">log</option>
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {(spec.mark === "bar" || spec.mark === "area") && (spec.y.length > 1 || spec.series) && (
+        <label className="flex items-center gap-2 text-xs text-slate-700">
+          <input type="checkbox" checked={spec.stacked ?? false} onChange={e => update({ stacked: e.target.checked || undefined })} />
+          Stack series
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { type ColumnDescription } from "@/lib/data-dictionary";
+
+type Props = {
+  column: string;
+  entry?: ColumnDescription;
+  isSaving: boolean;
+  onSave: (entry: ColumnDescription) => void;
+  onCancel: () => void;
+};
+
+function splitList(text: string): string[] {
+  return text.split(",").map(value => value.trim()).filter(Boolean);
+}
+
+// Inline form for a column's data dictionary entry; lists are edited as comma-separated text
+export function ColumnDescriptionEditor({ column, entry, isSaving, onSave, onCancel }: Props) {
+  const [description, setDescription] = useState(entry?.description ?? "");
+  const [unit, setUnit] = useState(entry?.unit ?? "");
+  const [synonyms, setSynonyms] = useState(entry?.synonyms?.join(", ") ?? "");
+  const [allowedValues, setAllowedValues] = useState(entry?.allowedValues?.join(", ") ?? "");
+  const [doNotAggregate, setDoNotAggregate] = useState(entry?.doNotAggregate ?? false);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      description,
+      unit,
+      synonyms: splitList(synonyms),
+      allowedValues: splitList(allowedValues),
+      doNotAggregate,
+    });
+  };
+
+  return (
+    <form onSubmit={save} className="space-y-3 mt-3 pt-3 border-t border-slate-200">
+      <div className="space-y-1">
+        <Label htmlFor={`${column}-description`} className="text-xs">Description</Label>
+        <Input
+          id={`${column}-description`}
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="What the column holds, e.g. annual treatment price"
+          className="h-8 text-sm"
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`${column}-unit`} className="text-xs">Unit</Label>
+          <Input
+            id={`${column}-unit`}
+            value={unit}
+            onChange={e => setUnit(e.target.value)}
+            placeholder="e.g. EUR per year"
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${column}-synonyms`} className="text-xs">Synonyms</Label>
+          <Input
+            id={`${column}-synonyms`}
+            value={synonyms}
+            onChange={e => setSynonyms(e.target.value)}
+            placeholder="Comma-separated, e.g. price, cost"
+            className="h-8 text-sm"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${column}-values`} className="text-xs">Allowed values</Label>
+        <Input
+          id={`${column}-values`}
+          value={allowedValues}
+          onChange={e => setAllowedValues(e.target.value)}
+          placeholder="Comma-separated, spelled as in the data"
+          className="h-8 text-sm"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-slate-700">
+        <input type="checkbox" checked={doNotAggregate} onChange={e => setDoNotAggregate(e.target.checked)} />
+        Do not aggregate (identifiers and codes are counted, never summed or averaged)
+      </label>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </form>
+  );
+}
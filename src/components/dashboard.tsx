@@ -0,0 +1,339 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { ArrowLeft, ChevronLeft, ChevronRight, LayoutDashboard, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DataVisualization } from "@/components/data-visualization";
+import { EmptyState, LoadingSpinner } from "@/components/ui/loading-states";
+import { tRPCClient } from "@/lib/trpc-client";
+import { defaultChartSpec } from "@/lib/chart-spec";
+import { clampLayout, DASHBOARD_COLUMNS, type DashboardTile, type TileLayout } from "@/lib/dashboard";
+
+// Height of one grid row in pixels; tiles span whole rows and columns
+const ROW_HEIGHT = 180;
+const GRID_GAP = 16;
+
+// Room taken by a tile's header and the chart's footer, left out of the plot height
+const TILE_CHROME_HEIGHT = 110;
+
+type TileProps = {
+  tile: DashboardTile;
+  isFirst: boolean;
+  isLast: boolean;
+  onResize: (layout: TileLayout) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+};
+
+function DashboardTileCard({ tile, isFirst, isLast, onResize, onMove, onRemove }: TileProps) {
+  const [result, setResult] = useState<any>(null);
+  const [error, setError] = useState<string>("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [runCount, setRunCount] = useState(0);
+  // Size shown while the resize handle is dragged, saved when it is released
+  const [preview, setPreview] = useState<TileLayout | null>(null);
+  const tileRef = useRef<HTMLDivElement>(null);
+
+  // Re-execute the tile's SQL against the current rows of its dataset
+  useEffect(() => {
+    let cancelled = false;
+    setIsRunning(true);
+    setError("");
+
+    tRPCClient.runDashboardTile(tile.id)
+      .then(data => {
+        if (cancelled) return;
+        if (data.success) {
+          setResult(data);
+        } else {
+          setResult(null);
+          setError(data.error || "Failed to run this analysis");
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to run this analysis");
+      })
+      .finally(() => {
+        if (!cancelled) setIsRunning(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tile.id, runCount]);
+
+  const startResize = (e: React.PointerEvent) => {
+    e.preventDefault();
+    const rect = tileRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const columnWidth = rect.width / tile.layout.columns;
+    const rowHeight = rect.height / tile.layout.rows;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    let next = tile.layout;
+
+    const onPointerMove = (event: PointerEvent) => {
+      next = clampLayout({
+        columns: tile.layout.columns + (event.clientX - startX) / columnWidth,
+        rows: tile.layout.rows + (event.clientY - startY) / rowHeight,
+      });
+      setPreview(next);
+    };
+    const onPointerUp = () => {
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+      setPreview(null);
+      if (next.columns !== tile.layout.columns || next.rows !== tile.layout.rows) onResize(next);
+    };
+
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+  };
+
+  const layout = preview ?? tile.layout;
+  const rows: any[] = result?.result ?? [];
+  const plotHeight = layout.rows * ROW_HEIGHT + (layout.rows - 1) * GRID_GAP - TILE_CHROME_HEIGHT;
+
+  const renderContent = () => {
+    if (isRunning) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <LoadingSpinner size="md" />
+        </div>
+      );
+    }
+    if (error) {
+      return <div className="h-full flex items-center justify-center text-sm text-red-600 text-center px-4">{error}</div>;
+    }
+    if (rows.length === 0) {
+      return <div className="h-full flex items-center justify-center text-sm text-slate-500">No rows match this analysis</div>;
+    }
+
+    if (tile.displayType === "number") {
+      return (
+        <div className="h-full flex flex-wrap items-center justify-center gap-x-8 gap-y-4 text-center">
+          {Object.entries(rows[0]).map(([label, value]) => (
+            <div key={label}>
+              <div className="text-3xl font-bold text-slate-900">
+                {typeof value === "number" ? value.toLocaleString() : String(value ?? "-")}
+              </div>
+              <div className="text-sm text-slate-600 capitalize">{label.replace(/_/g, " ")}</div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (tile.displayType === "table") {
+      const columns = Object.keys(rows[0]);
+      return (
+        <div className="h-full overflow-auto border border-slate-200 rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {columns.map(col => (
+                  <th key={col} className="text-left px-2 py-1 font-medium text-slate-700 border-b border-slate-200">
+                    {col.replace(/_/g, " ").toUpperCase()}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  {columns.map(col => (
+                    <td key={col} className="px-2 py-1 text-slate-900">
+                      {typeof row[col] === "number" ? row[col].toLocaleString() : String(row[col] ?? "-")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    return (
+      <DataVisualization
+        data={rows}
+        spec={tile.chartSpec ?? defaultChartSpec(tile.chartType ?? "bar", rows)}
+        height={Math.max(plotHeight, 120)}
+      />
+    );
+  };
+
+  return (
+    <div
+      ref={tileRef}
+      className="relative bg-white rounded-lg border border-slate-200 p-4 flex flex-col min-h-0"
+      style={{ gridColumn: `span ${layout.columns}`, gridRow: `span ${layout.rows}` }}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-slate-900 truncate" title={tile.title}>{tile.title}</h3>
+          <p className="text-xs text-slate-500 truncate">
+            {tile.filters && tile.filters.length > 0 ? `${tile.filters.length} filter${tile.filters.length !== 1 ? "s" : ""} · ` : ""}
+            {result?.totalRows !== undefined ? `${result.totalRows.toLocaleString()} rows` : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button onClick={() => onMove(-1)} disabled={isFirst} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move earlier">
+            <ChevronLeft className="w-3 h-3" />
+          </button>
+          <button onClick={() => onMove(1)} disabled={isLast} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move later">
+            <ChevronRight className="w-3 h-3" />
+          </button>
+          <button onClick={() => setRunCount(count => count + 1)} disabled={isRunning} className="p-1 text-slate-400 hover:text-slate-700" title="Run again">
+            <RefreshCw className="w-3 h-3" />
+          </button>
+          <button onClick={onRemove} className="p-1 text-slate-400 hover:text-red-600" title="Remove from dashboard">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-hidden">{renderContent()}</div>
+
+      <div
+        onPointerDown={startResize}
+        className="absolute bottom-1 right-1 w-3 h-3 cursor-se-resize border-r-2 border-b-2 border-slate-300 hover:border-slate-500"
+        title="Drag to resize"
+      />
+    </div>
+  );
+}
+
+// Pinned analyses laid out in a grid; each tile answers its question again when the dashboard opens
+export function Dashboard() {
+  const [tiles, setTiles] = useState<DashboardTile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+
+  const loadTiles = useCallback(async () => {
+    try {
+      const result = await tRPCClient.getDashboard();
+      if (result.success) {
+        setTiles(result.tiles);
+      } else {
+        setError(result.error || "Failed to load dashboard");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTiles();
+  }, [loadTiles]);
+
+  // Changes are shown straight away and the saved dashboard is reloaded if the server rejects them
+  const resizeTile = async (tile: DashboardTile, layout: TileLayout) => {
+    setError("");
+    setTiles(prev => prev.map(t => (t.id === tile.id ? { ...t, layout } : t)));
+    try {
+      const result = await tRPCClient.updateDashboardTile(tile.id, { layout });
+      if (!result.success) {
+        setError(result.error || "Failed to resize tile");
+        await loadTiles();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resize tile");
+      await loadTiles();
+    }
+  };
+
+  const moveTile = async (index: number, direction: -1 | 1) => {
+    const reordered = [...tiles];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+
+    setError("");
+    setTiles(reordered);
+    try {
+      const result = await tRPCClient.reorderDashboard(reordered.map(t => t.id));
+      if (!result.success) {
+        setError(result.error || "Failed to move tile");
+        await loadTiles();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to move tile");
+      await loadTiles();
+    }
+  };
+
+  const removeTile = async (tile: DashboardTile) => {
+    if (!window.confirm(`Remove "${tile.title}" from the dashboard?`)) return;
+
+    setError("");
+    try {
+      const result = await tRPCClient.unpinFromDashboard(tile.id);
+      if (!result.success) {
+        setError(result.error || "Failed to remove tile");
+        return;
+      }
+      setTiles(prev => prev.filter(t => t.id !== tile.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove tile");
+    }
+  };
+
+  return (
+    <div className="h-full bg-slate-50 overflow-y-auto">
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back to chat
+              </Button>
+            </Link>
+            <h1 className="text-xl font-semibold text-slate-900">Dashboard</h1>
+          </div>
+          <p className="text-sm text-slate-600">Drag a tile&apos;s corner to resize it</p>
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 p-3 bg-red-50 rounded">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : tiles.length === 0 ? (
+          <EmptyState
+            icon={LayoutDashboard}
+            title="No pinned analyses yet"
+            description='Ask a question, then use "Pin to dashboard" on the result to keep it here.'
+          />
+        ) : (
+          <div
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr))`,
+              gridAutoRows: `${ROW_HEIGHT}px`,
+              gap: `${GRID_GAP}px`,
+            }}
+          >
+            {tiles.map((tile, index) => (
+              <DashboardTileCard
+                key={tile.id}
+                tile={tile}
+                isFirst={index === 0}
+                isLast={index === tiles.length - 1}
+                onResize={(layout) => resizeTile(tile, layout)}
+                onMove={(direction) => moveTile(index, direction)}
+                onRemove={() => removeTile(tile)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { useData } from "@/components/data-provider";
+import { cn } from "@/lib/utils";
+import { tRPCClient } from "@/lib/trpc-client";
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 400;
+const COLUMN_WIDTH = 160;
+const PAGE_SIZE = 100;
+// Rows rendered above and below the visible ones, so fast scrolling doesn't show gaps
+const OVERSCAN = 10;
+
+type Sort = { column: string; direction: "asc" | "desc" } | null;
+
+// Scrollable grid over every row of the stored dataset. Rows are fetched a page at a time from the server
+// (sorted and filtered there) as they scroll into view, and only the visible rows are rendered.
+export function DataGrid() {
+  const { currentDataset, getQueryFilters } = useData();
+
+  const [sort, setSort] = useState<Sort>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [total, setTotal] = useState<number | null>(null);
+  const [error, setError] = useState<string>("");
+  const [, setLoadedPages] = useState(0); // Bumped when a page arrives, to re-render
+  const pages = useRef(new Map<number, Record<string, any>[]>());
+  const requested = useRef(new Set<number>());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Same array until the panel filters change, so loadPage isn't rebuilt on every render
+  const filters = useMemo(() => getQueryFilters(), [getQueryFilters]);
+  const columns = currentDataset?.schema || [];
+  // Everything that changes which rows are where: loaded pages are thrown away when it changes
+  const queryKey = JSON.stringify([currentDataset?.id, columns.map(col => `${col.name}:${col.type}`), sort, filters]);
+  const latestKey = useRef(queryKey);
+  latestKey.current = queryKey;
+
+  useEffect(() => {
+    pages.current = new Map();
+    requested.current = new Set();
+    setTotal(null);
+    setError("");
+    setLoadedPages(0);
+    setScrollTop(0);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [queryKey]);
+
+  const firstVisible = Math.max(Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN, 0);
+  const lastVisible = Math.floor((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN;
+  const firstPage = Math.floor(firstVisible / PAGE_SIZE);
+  const lastPage = Math.floor(lastVisible / PAGE_SIZE);
+
+  const loadPage = useCallback((page: number, key: string) => {
+    if (!currentDataset?.id || requested.current.has(page)) return;
+    requested.current.add(page);
+
+    tRPCClient.getRows(currentDataset.id, {
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+      sort: sort ? [sort] : undefined,
+      filters,
+    })
+      .then(result => {
+        // Ignore pages that arrive after the sort or filters changed
+        if (key !== latestKey.current) return;
+        if (!result.success) {
+          requested.current.delete(page);
+          setError(result.error || "Failed to load rows");
+          return;
+        }
+        pages.current.set(page, result.rows);
+        setTotal(result.total);
+        setLoadedPages(count => count + 1);
+      })
+      .catch(err => {
+        if (key !== latestKey.current) return;
+        requested.current.delete(page);
+        setError(err instanceof Error ? err.message : "Failed to load rows");
+      });
+  }, [currentDataset?.id, sort, filters]);
+
+  useEffect(() => {
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (total === null ? page === 0 : page * PAGE_SIZE < total) loadPage(page, queryKey);
+    }
+  }, [firstPage, lastPage, total, queryKey, loadPage]);
+
+  const toggleSort = (column: string) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, direction: "asc" };
+      if (current.direction === "asc") return { column, direction: "desc" };
+      return null;
+    });
+  };
+
+  if (!currentDataset) return null;
+
+  const rowCount = total ?? 0;
+  const visibleRows: { index: number; row?: Record<string, any> }[] = [];
+  for (let index = firstVisible; index <= Math.min(lastVisible, rowCount - 1); index++) {
+    visibleRows.push({ index, row: pages.current.get(Math.floor(index / PAGE_SIZE))?.[index % PAGE_SIZE] });
+  }
+  const width = Math.max(columns.length, 1) * COLUMN_WIDTH;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>
+          {total === null
+            ? "Loading rows..."
+            : filters.length > 0
+            ? `${total.toLocaleString()} of ${currentDataset.rowCount.toLocaleString()} rows match the filters`
+            : `${total.toLocaleString()} rows`}
+        </span>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="border border-slate-200 rounded-lg overflow-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="sticky top-0 z-10 flex bg-slate-50 border-b border-slate-200" style={{ width }}>
+          {columns.map(col => (
+            <button
+              key={col.name}
+              onClick={() => toggleSort(col.name)}
+              className="flex items-center gap-1 px-3 text-left text-sm font-medium text-slate-700 hover:bg-slate-100 flex-shrink-0"
+              style={{ width: COLUMN_WIDTH, height: ROW_HEIGHT }}
+              title={`Sort by ${col.name}`}
+            >
+              <span className="truncate">{col.name}</span>
+              {sort?.column === col.name ? (
+                sort.direction === "asc" ? <ArrowUp className="w-3 h-3 flex-shrink-0" /> : <ArrowDown className="w-3 h-3 flex-shrink-0" />
+              ) : (
+                <ArrowUpDown className="w-3 h-3 flex-shrink-0 text-slate-300" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="relative" style={{ height: rowCount * ROW_HEIGHT, width }}>
+          {visibleRows.map(({ index, row }) => (
+            <div
+              key={index}
+              className={cn("absolute left-0 flex border-b border-slate-100", index % 2 === 1 && "bg-slate-50/50")}
+              style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, width }}
+            >
+              {columns.map(col => (
+                <div key={col.name} className="px-3 flex items-center text-sm text-slate-900 flex-shrink-0" style={{ width: COLUMN_WIDTH }}>
+                  {row ? (
+                    <div className="truncate" title={String(row[col.name] ?? "")}>
+                      {row[col.name] === "" || row[col.name] === null || row[col.name] === undefined ? "-" : String(row[col.name])}
+                    </div>
+                  ) : (
+                    <div className="h-3 w-3/4 bg-slate-100 rounded animate-pulse" />
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,22 @@
 "use client";
 
-import React, { createContext, useContext, useState, type ReactNode } from "react";
+import React, { createContext, useCallback, useContext, useState, type ReactNode } from "react";
+import { type QueryFilter } from "@/lib/trpc-client";
+import { type ColumnType, type NumberFormat } from "@/lib/column-profile";
+import { type ChartSpec } from "@/lib/chart-spec";
 
-type maybDataSchema = {
+// Profile of a column; datasets stored before profiling only have name, type and sample
+type DataSchema = {
   name: string;
-  type: "string" | "number" | "date" | "boolean";
+  type: ColumnType;
   sample: string;
+  nullable?: boolean;
+  nullCount?: number;
+  confidence?: number;
+  mixed?: boolean;
+  numberFormat?: NumberFormat;
+  override?: boolean;
+  explanation?: string;
 };
 
 type DatasetInfo = {
@@ -14,7 +25,12 @@ type DatasetInfo = {
   schema: DataSchema[];
   rowCount: number;
   preview: Record<string, any>[];
-  fullData?: Record<string, any>[]; // Optional full dataset for filtering
+};
+
+// Another stored dataset made available to queries as an extra table for JOINs
+type LinkedDataset = {
+  id: string;
+  name: string;
 };
 
 type FilterValue = {
@@ -56,6 +72,12 @@ type AnalysisResult = {
   displayType: "number" | "chart" | "table";
   explanations?: string; // Add explanations field
   originalQuery?: string; // Add original query for dynamic chart generation
+  chartSpec?: ChartSpec; // Chart specification streamed with the result, so it doesn't need to be generated again
+  baseSql?: string; // Generated SQL before filters were applied, re-run when the filters change
+  filters?: QueryFilter[]; // Filters the result was computed with
+  totalRows?: number; // Rows in the full result; data only holds the pages loaded so far
+  nextCursor?: number | null; // Offset of the next page to load, null once every row is loaded
+  analysisId?: string; // Saved copy of exactly this analysis, for its permalink; cleared when it is changed
   interpretation: {
     aggregation: string;
     groupBy: string[];
@@ -68,6 +90,9 @@ type AnalysisResult = {
 type DataContextType = {
   currentDataset: DatasetInfo | null;
   setCurrentDataset: (dataset: DatasetInfo | null) => void;
+  linkedDatasets: LinkedDataset[];
+  toggleLinkedDataset: (dataset: LinkedDataset) => void;
+  unlinkDataset: (datasetId: string) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
   currentAnalysis: AnalysisResult | null;
@@ -78,7 +103,7 @@ type DataContextType = {
   setFilters: (filters: Filter[]) => void;
   updateFilter: (columnName: string, filterUpdate: Partial<Filter>) => void;
   clearFilters: () => void;
-  getFilteredData: (data: any[]) => any[];
+  getQueryFilters: () => QueryFilter[];
   availableFilters: Filter[];
   setAvailableFilters: (filters: Filter[]) => void;
   chatHistory: Array<{
@@ -96,6 +121,15 @@ type DataContextType = {
     sql?: string;
     explanations?: string;
     originalQuery?: string;
+    chartType?: "bar" | "line" | "pie";
+    chartSpec?: ChartSpec;
+    datasetId?: string; // Dataset the query ran against, so follow-ups only see turns on the same data
+    basedOn?: string; // Earlier question this result refines
+    baseSql?: string;
+    filters?: QueryFilter[];
+    totalRows?: number;
+    nextCursor?: number | null;
+    analysisId?: string;
   }>;
   addMessage: (message: {
     type: "user" | "assistant";
@@ -110,6 +144,15 @@ type DataContextType = {
     sql?: string;
     explanations?: string;
     originalQuery?: string;
+    chartType?: "bar" | "line" | "pie";
+    chartSpec?: ChartSpec;
+    datasetId?: string; // Dataset the query ran against, so follow-ups only see turns on the same data
+    basedOn?: string; // Earlier question this result refines
+    baseSql?: string;
+    filters?: QueryFilter[];
+    totalRows?: number;
+    nextCursor?: number | null;
+    analysisId?: string;
   }) => void;
   clearHistory: () => void;
 };
@@ -118,6 +161,7 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 
 export function DataProvider({ children }: { children: ReactNode }) {
   const [currentDataset, setCurrentDataset] = useState<DatasetInfo | null>(null);
+  const [linkedDatasets, setLinkedDatasets] = useState<LinkedDataset[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [currentAnalysis, setCurrentAnalysis] = useState<AnalysisResult | null>(null);
   const [analysisMode, setAnalysisMode] = useState(false);
@@ -141,11 +185,17 @@ export function DataProvider({ children }: { children: ReactNode }) {
         displayType: message.displayType,
         explanations: message.explanations,
         originalQuery: message.originalQuery,
+        chartSpec: message.chartSpec,
+        baseSql: message.baseSql,
+        filters: message.filters,
+        totalRows: message.totalRows,
+        nextCursor: message.nextCursor,
+        analysisId: message.analysisId,
         interpretation: {
           aggregation: "count",
           groupBy: [],
           filters: [],
-          chartType: message.chartConfig?.type || "bar",
+          chartType: message.chartType || message.chartConfig?.type || "bar",
           displayType: message.displayType,
         },
       });
@@ -153,6 +203,18 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const toggleLinkedDataset = (dataset: LinkedDataset) => {
+    setLinkedDatasets(prev =>
+      prev.some(d => d.id === dataset.id)
+        ? prev.filter(d => d.id !== dataset.id)
+        : [...prev, dataset]
+    );
+  };
+
+  const unlinkDataset = (datasetId: string) => {
+    setLinkedDatasets(prev => prev.filter(d => d.id !== datasetId));
+  };
+
   const clearHistory = () => {
     setChatHistory([]);
     setCurrentAnalysis(null);
@@ -182,52 +244,35 @@ export function DataProvider({ children }: { children: ReactNode }) {
     setFilters([]);
   };
 
-  const getFilteredData = (data: any[]): any[] => {
-    if (!data || data.length === 0 || filters.length === 0) {
-      return data;
-    }
-
-    return data.filter(row => {
-      return filters.every(filter => {
-        const value = row[filter.column];
-
-        if (filter.type === "category") {
-          const categoryFilter = filter as CategoryFilter;
-          return categoryFilter.selectedValues.length === 0 || 
-                 categoryFilter.selectedValues.includes(String(value));
-        }
-
-        if (filter.type === "date") {
-          const dateFilter = filter as DateFilter;
-          const rowDate = new Date(value);
-          const startDate = dateFilter.startDate ? new Date(dateFilter.startDate) : null;
-          const endDate = dateFilter.endDate ? new Date(dateFilter.endDate) : null;
-          
-          if (startDate && rowDate < startDate) return false;
-          if (endDate && rowDate > endDate) return false;
-          return true;
-        }
+  // Active filters in the shape the server applies as WHERE predicates; filters with nothing selected are left out
+  const getQueryFilters = useCallback((): QueryFilter[] => {
+    return filters.flatMap((filter): QueryFilter[] => {
+      if (filter.type === "category") {
+        return filter.selectedValues.length > 0
+          ? [{ column: filter.column, type: "category", values: filter.selectedValues }]
+          : [];
+      }
 
-        if (filter.type === "numeric") {
-          const numericFilter = filter as NumericFilter;
-          const numValue = parseFloat(value);
-          if (isNaN(numValue)) return true; // Skip non-numeric values
-          
-          if (numericFilter.minValue !== null && numValue < numericFilter.minValue) return false;
-          if (numericFilter.maxValue !== null && numValue > numericFilter.maxValue) return false;
-          return true;
-        }
+      if (filter.type === "date") {
+        return filter.startDate || filter.endDate
+          ? [{ column: filter.column, type: "date", start: filter.startDate, end: filter.endDate }]
+          : [];
+      }
 
-        return true;
-      });
+      return filter.minValue !== null || filter.maxValue !== null
+        ? [{ column: filter.column, type: "numeric", min: filter.minValue, max: filter.maxValue }]
+        : [];
     });
-  };
+  }, [filters]);
 
   return (
     <DataContext.Provider
       value={{
         currentDataset,
         setCurrentDataset,
+        linkedDatasets,
+        toggleLinkedDataset,
+        unlinkDataset,
         isLoading,
         setIsLoading,
         currentAnalysis,
@@ -238,7 +283,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         setFilters,
         updateFilter,
         clearFilters,
-        getFilteredData,
+        getQueryFilters,
         availableFilters,
         setAvailableFilters,
         chatHistory,
@@ -260,4 +305,4 @@ export function useData() {
 }
 
 // Export types for use in other components
-export type { Filter, CategoryFilter, DateFilter, NumericFilter, DataSchema, DatasetInfo, AnalysisResult };
+export type { Filter, CategoryFilter, DateFilter, NumericFilter, DataSchema, DatasetInfo, AnalysisResult, LinkedDataset };
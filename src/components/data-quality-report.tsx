@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-states";
+import { useData } from "@/components/data-provider";
+import { cn } from "@/lib/utils";
+import { tRPCClient } from "@/lib/trpc-client";
+import { type DatasetProfile, type ColumnStats, type HistogramBin } from "@/lib/dataset-profile";
+
+const ISSUE_LABELS: Record<ColumnStats["issues"][number]["code"], string> = {
+  mostly_empty: "Mostly empty",
+  constant: "Constant",
+  mixed_types: "Mixed types",
+  outliers: "Outliers",
+};
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatBound(value: number | string): string {
+  return typeof value === "number" ? formatNumber(value) : value;
+}
+
+function Histogram({ bins }: { bins: HistogramBin[] }) {
+  const max = Math.max(...bins.map(bin => bin.count), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-12">
+        {bins.map((bin, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-purple-300 rounded-t-sm"
+            style={{ height: `${Math.max((bin.count / max) * 100, bin.count > 0 ? 4 : 0)}%` }}
+            title={`${formatBound(bin.start)} – ${formatBound(bin.end)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+        <span>{formatBound(bins[0].start)}</span>
+        <span>{formatBound(bins[bins.length - 1].end)}</span>
+      </div>
+    </div>
+  );
+}
+
+function ColumnDetails({ column, rowCount }: { column: ColumnStats; rowCount: number }) {
+  const stats: [string, string][] = [
+    ["Empty", `${column.emptyCount.toLocaleString()} (${Math.round(column.emptyRatio * 100)}%)`],
+    ["Distinct", column.distinctCount.toLocaleString()],
+  ];
+
+  if (column.numeric) {
+    stats.push(
+      ["Min", formatNumber(column.numeric.min)],
+      ["Max", formatNumber(column.numeric.max)],
+      ["Mean", formatNumber(column.numeric.mean)],
+      ["Median", formatNumber(column.numeric.median)],
+      ["Q1 / Q3", `${formatNumber(column.numeric.q1)} / ${formatNumber(column.numeric.q3)}`],
+      ["Std dev", formatNumber(column.numeric.stdDev)],
+    );
+  }
+  if (column.dates) {
+    stats.push(["Earliest", column.dates.min], ["Latest", column.dates.max]);
+  }
+  if (column.text) {
+    stats.push(["Length", `${column.text.minLength}–${column.text.maxLength} (avg ${formatNumber(column.text.meanLength)})`]);
+  }
+
+  return (
+    <div className="p-3 border-t border-slate-200 bg-white space-y-3">
+      {column.issues.length > 0 && (
+        <ul className="space-y-1">
+          {column.issues.map(issue => (
+            <li key={issue.code} className="flex items-start gap-2 text-xs text-amber-700">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {stats.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-slate-900 text-right truncate">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {column.histogram && column.histogram.length > 1 && <Histogram bins={column.histogram} />}
+
+      {column.topValues.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-slate-600">Top values</div>
+          {column.topValues.map(({ value, count }) => (
+            <div key={value} className="flex items-center gap-2 text-xs">
+              <div className="flex-1 truncate text-slate-700" title={value}>{value}</div>
+              <div className="w-20 h-1.5 bg-slate-100 rounded-full overflow-hidden flex-shrink-0">
+                <div className="h-full bg-purple-400" style={{ width: `${(count / Math.max(rowCount, 1)) * 100}%` }} />
+              </div>
+              <div className="w-10 text-right text-slate-500 flex-shrink-0">{count.toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Per-column profile of the full stored dataset, with columns that need attention flagged
+export function DataQualityReport() {
+  const { currentDataset } = useData();
+
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [expandedColumns, setExpandedColumns] = useState<Set<string>>(new Set());
+
+  // Type overrides change how values are read, so profile again when they do
+  const schemaKey = currentDataset?.schema.map(col => `${col.name}:${col.type}`).join(",");
+
+  useEffect(() => {
+    if (!currentDataset?.id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError("");
+
+    tRPCClient.profileDataset(currentDataset.id)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setProfile(result.profile);
+        } else {
+          setError(result.error || "Failed to profile dataset");
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to profile dataset");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDataset?.id, schemaKey]);
+
+  const toggleColumn = (name: string) => {
+    setExpandedColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const flaggedColumns = profile?.columns.filter(column => column.issues.length > 0).length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-base sm:text-lg">Data Quality</CardTitle>
+          {profile && !isLoading && (
+            <div className={cn(
+              "inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full font-medium",
+              flaggedColumns > 0 ? "bg-amber-100 text-amber-800" : "bg-green-100 text-green-800"
+            )}>
+              {flaggedColumns > 0 ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+              {flaggedColumns > 0 ? `${flaggedColumns} column${flaggedColumns !== 1 ? "s" : ""} flagged` : "No issues found"}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingSpinner message="Profiling dataset..." className="py-6" />
+        ) : error ? (
+          <div className="text-sm text-red-600">{error}</div>
+        ) : profile ? (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {profile.columns.map(column => {
+              const isExpanded = expandedColumns.has(column.name);
+              return (
+                <div key={column.name} className="border border-slate-200 rounded-lg overflow-hidden">
+                  <button
+                    onClick={() => toggleColumn(column.name)}
+                    className="w-full flex items-center gap-3 p-3 text-left bg-slate-50 hover:bg-slate-100 transition-colors"
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-sm text-slate-900 truncate">{column.name}</div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {column.type} · {Math.round(column.emptyRatio * 100)}% empty · {column.distinctCount.toLocaleString()} distinct
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {column.issues.map(issue => (
+                        <span key={issue.code} className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full" title={issue.message}>
+                          {ISSUE_LABELS[issue.code]}
+                        </span>
+                      ))}
+                    </div>
+                  </button>
+                  {isExpanded && <ColumnDetails column={column} rowCount={profile.rowCount} />}
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,34 +12,23 @@ import {
   ResponsiveContainer,
   LineChart as RechartsLineChart,
   Line,
+  AreaChart,
+  Area,
+  ScatterChart,
+  Scatter,
   PieChart as RechartsPieChart,
   Pie,
   Cell,
 } from "recharts";
-
-type ChartConfig = {
-  type: "bar" | "line" | "pie";
-  xField: string;
-  yField: string;
-};
+import { buildChartData, parseChartSpec, CHART_COLORS, type ChartSpec } from "@/lib/chart-spec";
 
 type Props = {
   data: any[];
-  chartConfig: ChartConfig;
+  spec: ChartSpec;
+  height?: number; // Height of the plot area in pixels
 };
 
-const COLORS = [
-  "#8884d8",
-  "#82ca9d",
-  "#ffc658",
-  "#ff7300",
-  "#00ff00",
-  "#ff00ff",
-  "#00ffff",
-  "#ff0000",
-];
-
-export function DataVisualization({ data, chartConfig }: Props) {
+export function DataVisualization({ data, spec: rawSpec, height = 300 }: Props) {
   if (!data || data.length === 0) {
     return (
       <div className="h-64 flex items-center justify-center text-muted-foreground bg-muted/30 rounded">
@@ -48,66 +37,186 @@ export function DataVisualization({ data, chartConfig }: Props) {
     );
   }
 
+  // Specs are checked on the server too; saved ones may no longer match the columns of a re-run result
+  const parsed = parseChartSpec(rawSpec, Object.keys(data[0]));
+  if (!parsed.success || !parsed.spec) {
+    return (
+      <div className="h-64 flex items-center justify-center text-red-600 bg-red-50 rounded">
+        <div className="text-center px-4">
+          <p className="text-sm font-medium">Invalid Chart Specification</p>
+          <p className="text-xs mt-1">{parsed.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const spec = parsed.spec;
+  const chartData = buildChartData(data, spec);
+  const { series } = chartData;
+  const stackId = spec.stacked ? "stack" : undefined;
+  const yLabel = spec.yAxis?.label ?? (spec.y.length === 1 ? spec.y[0].label : undefined);
+  const logScale = spec.yAxis?.scale === "log" && spec.mark !== "pie";
+
+  // Zero and negative values have no place on a log axis, so they are left out rather than drawn at -Infinity
+  const rows = logScale
+    ? chartData.rows.map(row => {
+        const plotted = { ...row };
+        series.forEach(s => {
+          if (typeof plotted[s.key] === "number" && plotted[s.key] <= 0) plotted[s.key] = null;
+        });
+        return plotted;
+      })
+    : chartData.rows;
+
+  const xAxis = (
+    <XAxis
+      dataKey={spec.x.field}
+      angle={spec.mark === "bar" ? -45 : 0}
+      textAnchor={spec.mark === "bar" ? "end" : "middle"}
+      height={spec.mark === "bar" ? 80 : 40}
+      label={spec.x.label ? { value: spec.x.label, position: "insideBottom", offset: 0 } : undefined}
+    />
+  );
+  const yAxis = (
+    <YAxis
+      scale={logScale ? "log" : "auto"}
+      domain={logScale ? ["auto", "auto"] : undefined}
+      allowDataOverflow={logScale}
+      label={yLabel ? { value: yLabel, angle: -90, position: "insideLeft" } : undefined}
+    />
+  );
+
+  const legendPosition = spec.legend ?? "bottom";
+  const legend = legendPosition === "none" ? null : (
+    <Legend
+      layout={legendPosition === "left" || legendPosition === "right" ? "vertical" : "horizontal"}
+      verticalAlign={legendPosition === "top" ? "top" : legendPosition === "bottom" ? "bottom" : "middle"}
+      align={legendPosition === "left" ? "left" : legendPosition === "right" ? "right" : "center"}
+    />
+  );
+
   const renderChart = () => {
-    switch (chartConfig.type) {
+    switch (spec.mark) {
       case "bar":
         return (
-          <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={data}>
+          <ResponsiveContainer width="100%" height={height}>
+            <BarChart data={rows}>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis 
-                dataKey={chartConfig.xField} 
-                angle={-45}
-                textAnchor="end"
-                height={80}
-              />
-              <YAxis />
+              {xAxis}
+              {yAxis}
               <Tooltip />
-              <Legend />
-              <Bar dataKey={chartConfig.yField} fill="#8884d8" />
+              {legend}
+              {series.map(s => (
+                <Bar key={s.key} dataKey={s.key} name={s.label} fill={s.color} stackId={stackId} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
         );
 
       case "line":
         return (
-          <ResponsiveContainer width="100%" height={300}>
-            <RechartsLineChart data={data}>
+          <ResponsiveContainer width="100%" height={height}>
+            <RechartsLineChart data={rows}>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey={chartConfig.xField} />
-              <YAxis />
+              {xAxis}
+              {yAxis}
               <Tooltip />
-              <Legend />
-              <Line
-                type="monotone"
-                dataKey={chartConfig.yField}
-                stroke="#8884d8"
-                strokeWidth={2}
-                dot={{ r: 4 }}
-              />
+              {legend}
+              {series.map(s => (
+                <Line
+                  key={s.key}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.label}
+                  stroke={s.color}
+                  strokeWidth={2}
+                  dot={{ r: 4 }}
+                />
+              ))}
             </RechartsLineChart>
           </ResponsiveContainer>
         );
 
+      case "area":
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <AreaChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              {xAxis}
+              {yAxis}
+              <Tooltip />
+              {legend}
+              {series.map(s => (
+                <Area
+                  key={s.key}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.label}
+                  stroke={s.color}
+                  fill={s.color}
+                  fillOpacity={0.3}
+                  stackId={stackId}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        );
+
+      case "scatter":
+        // Each measure is plotted against x as its own set of points
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey={spec.x.field}
+                type={rows.every(row => typeof row[spec.x.field] === "number") ? "number" : "category"}
+                name={spec.x.label || spec.x.field}
+                label={spec.x.label ? { value: spec.x.label, position: "insideBottom", offset: 0 } : undefined}
+                allowDuplicatedCategory={false}
+              />
+              <YAxis
+                dataKey="value"
+                type="number"
+                scale={logScale ? "log" : "auto"}
+                domain={logScale ? ["auto", "auto"] : undefined}
+                allowDataOverflow={logScale}
+                label={yLabel ? { value: yLabel, angle: -90, position: "insideLeft" } : undefined}
+              />
+              <Tooltip cursor={{ strokeDasharray: "3 3" }} />
+              {legend}
+              {series.map(s => (
+                <Scatter
+                  key={s.key}
+                  name={s.label}
+                  fill={s.color}
+                  data={rows.map(row => ({ [spec.x.field]: row[spec.x.field], value: row[s.key] }))}
+                />
+              ))}
+            </ScatterChart>
+          </ResponsiveContainer>
+        );
+
       case "pie":
         return (
-          <ResponsiveContainer width="100%" height={300}>
+          <ResponsiveContainer width="100%" height={height}>
             <RechartsPieChart>
               <Pie
-                data={data}
+                data={rows}
                 cx="50%"
                 cy="50%"
                 outerRadius={80}
                 fill="#8884d8"
-                dataKey={chartConfig.yField}
-                nameKey={chartConfig.xField}
+                dataKey={series[0].key}
+                nameKey={spec.x.field}
                 label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
               >
-                {data.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                {rows.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={spec.colors?.[index % spec.colors.length] ?? CHART_COLORS[index % CHART_COLORS.length]} />
                 ))}
               </Pie>
               <Tooltip />
+              {spec.legend && legend}
             </RechartsPieChart>
           </ResponsiveContainer>
         );
@@ -117,19 +226,18 @@ export function DataVisualization({ data, chartConfig }: Props) {
     }
   };
 
-
-
   return (
     <div className="space-y-4">
-      <div 
+      <div
         className="bg-background border rounded-lg p-4"
         data-chart="true"
       >
+        {spec.title && <h3 className="text-sm font-medium text-slate-900 mb-2">{spec.title}</h3>}
         {renderChart()}
       </div>
 
       <div className="text-xs text-muted-foreground">
-        Showing {data.length} records • Fields: {chartConfig.xField} vs {chartConfig.yField}
+        Showing {rows.length} records • Fields: {spec.x.field} vs {series.map(s => s.label).join(", ")}
       </div>
     </div>
   );
@@ -0,0 +1,341 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Folder, FolderOpen, Database, Pencil, FolderInput, Trash2, ChevronDown, ChevronRight, Check, X, Link2, Eraser } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-states";
+import { useData } from "@/components/data-provider";
+import { cn } from "@/lib/utils";
+import { tRPCClient } from "@/lib/trpc-client";
+
+type StoredDataset = {
+  id: string;
+  name: string;
+  filename: string;
+  source: "upload" | "sample";
+  folder?: string;
+  uploadedAt: string;
+  rowCount: number;
+  schema: { name: string; type: string; sample: string }[];
+};
+
+type EditState = {
+  datasetId: string;
+  field: "name" | "folder";
+  value: string;
+};
+
+export function DatasetLibrary() {
+  const {
+    currentDataset,
+    setCurrentDataset,
+    linkedDatasets,
+    toggleLinkedDataset,
+    unlinkDataset,
+    setCurrentAnalysis,
+    setAnalysisMode,
+    clearFilters,
+    addMessage,
+  } = useData();
+
+  const [datasets, setDatasets] = useState<StoredDataset[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+
+  const refreshDatasets = useCallback(async () => {
+    setIsLoadingList(true);
+    try {
+      const result = await tRPCClient.listDatasets();
+      if (result.success) {
+        setDatasets(result.datasets || []);
+        setError("");
+      } else {
+        setError(result.error || "Failed to load datasets");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load datasets");
+    } finally {
+      setIsLoadingList(false);
+    }
+  }, []);
+
+  // Reload the library whenever a dataset is uploaded or switched
+  useEffect(() => {
+    refreshDatasets();
+  }, [currentDataset?.id, refreshDatasets]);
+
+  const openDataset = async (dataset: StoredDataset) => {
+    if (dataset.id === currentDataset?.id || openingId) return;
+
+    setOpeningId(dataset.id);
+    try {
+      const result = await tRPCClient.getDataset(dataset.id);
+      if (!result.success) {
+        setError(result.error || "Failed to open dataset");
+        return;
+      }
+
+      // The new primary dataset can't also be a linked one
+      unlinkDataset(result.datasetId);
+      setCurrentDataset({
+        id: result.datasetId,
+        name: result.name,
+        schema: result.schema || [],
+        rowCount: result.rowCount || 0,
+        preview: result.preview || [],
+      });
+
+      // Results and filters refer to the previous dataset's columns
+      setCurrentAnalysis(null);
+      setAnalysisMode(false);
+      clearFilters();
+
+      addMessage({
+        type: "assistant",
+        content: `📂 Switched to "${result.name}" (${(result.rowCount || 0).toLocaleString()} rows, ${(result.schema || []).length} columns).`,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open dataset");
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+
+    const value = editing.value.trim();
+    if (editing.field === "name" && !value) {
+      setEditing(null);
+      return;
+    }
+
+    try {
+      const result = await tRPCClient.updateDataset(editing.datasetId, { [editing.field]: value });
+      if (!result.success) {
+        setError(result.error || "Failed to update dataset");
+        return;
+      }
+
+      if (editing.field === "name" && editing.datasetId === currentDataset?.id) {
+        setCurrentDataset({ ...currentDataset, name: value });
+      }
+      setEditing(null);
+      await refreshDatasets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update dataset");
+    }
+  };
+
+  const removeDataset = async (dataset: StoredDataset) => {
+    if (!window.confirm(`Delete "${dataset.name}"? This cannot be undone.`)) return;
+
+    try {
+      const result = await tRPCClient.deleteDataset(dataset.id);
+      if (!result.success) {
+        setError(result.error || "Failed to delete dataset");
+        return;
+      }
+
+      unlinkDataset(dataset.id);
+      if (dataset.id === currentDataset?.id) {
+        setCurrentDataset(null);
+        setCurrentAnalysis(null);
+        setAnalysisMode(false);
+        clearFilters();
+      }
+      await refreshDatasets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete dataset");
+    }
+  };
+
+  // Forget the SQL and charts generated for the dataset, so its questions are sent to the model again
+  const clearCachedAnswers = async (dataset: StoredDataset) => {
+    setError("");
+    setNotice("");
+
+    try {
+      const result = await tRPCClient.clearCache(dataset.id);
+      if (!result.success) {
+        setError(result.error || "Failed to clear cached answers");
+        return;
+      }
+      setNotice(`Cleared ${result.removed} cached answer${result.removed !== 1 ? "s" : ""} for "${dataset.name}"`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear cached answers");
+    }
+  };
+
+  const toggleFolder = (folder: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folder)) {
+        next.delete(folder);
+      } else {
+        next.add(folder);
+      }
+      return next;
+    });
+  };
+
+  const folders = [...new Set(datasets.map(d => d.folder).filter((f): f is string => !!f))].sort();
+  const ungrouped = datasets.filter(d => !d.folder);
+
+  const renderEditor = () => (
+    <div className="flex items-center gap-1 py-1">
+      <Input
+        autoFocus
+        value={editing?.value || ""}
+        placeholder={editing?.field === "folder" ? "Folder name (empty to ungroup)" : "Dataset name"}
+        onChange={(e) => setEditing(prev => prev && { ...prev, value: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") saveEdit();
+          if (e.key === "Escape") setEditing(null);
+        }}
+        className="h-7 text-xs px-2"
+      />
+      <button onClick={saveEdit} className="p-1 text-slate-500 hover:text-green-600" title="Save">
+        <Check className="w-3 h-3" />
+      </button>
+      <button onClick={() => setEditing(null)} className="p-1 text-slate-500 hover:text-slate-700" title="Cancel">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
+  const renderDataset = (dataset: StoredDataset) => {
+    const isActive = dataset.id === currentDataset?.id;
+    const isLinked = linkedDatasets.some(d => d.id === dataset.id);
+
+    if (editing?.datasetId === dataset.id) {
+      return <div key={dataset.id}>{renderEditor()}</div>;
+    }
+
+    return (
+      <div
+        key={dataset.id}
+        onClick={() => openDataset(dataset)}
+        className={cn(
+          "group p-2 rounded cursor-pointer transition-colors",
+          isActive ? "bg-purple-50 border border-purple-200" :
+          isLinked ? "bg-blue-50 border border-blue-200" :
+          "hover:bg-slate-100"
+        )}
+        title={dataset.filename}
+      >
+        <div className="flex items-center gap-2">
+          {openingId === dataset.id ? (
+            <LoadingSpinner size="sm" />
+          ) : (
+            <Database className={cn("w-3 h-3 flex-shrink-0", isActive ? "text-purple-600" : "text-slate-400")} />
+          )}
+          <span className={cn("text-xs truncate flex-1", isActive ? "text-purple-900 font-medium" : "text-slate-700")}>
+            {dataset.name}
+          </span>
+          {isLinked && (
+            <Link2 className="w-3 h-3 text-blue-600 flex-shrink-0 group-hover:hidden" />
+          )}
+          <div className="hidden group-hover:flex items-center gap-1 flex-shrink-0">
+            {currentDataset && !isActive && (
+              <button
+                onClick={(e) => { e.stopPropagation(); toggleLinkedDataset({ id: dataset.id, name: dataset.name }); }}
+                className={cn(isLinked ? "text-blue-600 hover:text-blue-800" : "text-slate-400 hover:text-slate-700")}
+                title={isLinked ? "Unlink from queries" : "Link for joins in queries"}
+              >
+                <Link2 className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditing({ datasetId: dataset.id, field: "name", value: dataset.name }); }}
+              className="text-slate-400 hover:text-slate-700"
+              title="Rename"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setEditing({ datasetId: dataset.id, field: "folder", value: dataset.folder || "" }); }}
+              className="text-slate-400 hover:text-slate-700"
+              title="Move to folder"
+            >
+              <FolderInput className="w-3 h-3" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); clearCachedAnswers(dataset); }}
+              className="text-slate-400 hover:text-slate-700"
+              title="Clear cached answers"
+            >
+              <Eraser className="w-3 h-3" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); removeDataset(dataset); }}
+              className="text-slate-400 hover:text-red-600"
+              title="Delete"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+        <div className="text-[10px] text-slate-500 mt-1 pl-5">
+          {dataset.rowCount.toLocaleString()} rows · {dataset.schema.length} cols · {new Date(dataset.uploadedAt).toLocaleDateString()}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1 max-h-64 overflow-y-auto">
+      {isLoadingList && datasets.length === 0 && (
+        <div className="flex items-center gap-2 text-xs text-slate-400 p-2">
+          <LoadingSpinner size="sm" />
+          Loading datasets...
+        </div>
+      )}
+
+      {!isLoadingList && datasets.length === 0 && !error && (
+        <div className="text-xs text-slate-400 italic">
+          No datasets yet
+        </div>
+      )}
+
+      {folders.map(folder => {
+        const isCollapsed = collapsedFolders.has(folder);
+        return (
+          <div key={folder}>
+            <button
+              onClick={() => toggleFolder(folder)}
+              className="w-full flex items-center gap-1 text-xs text-slate-600 p-1 rounded hover:bg-slate-100"
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              {isCollapsed ? <Folder className="w-3 h-3" /> : <FolderOpen className="w-3 h-3" />}
+              <span className="truncate">{folder}</span>
+            </button>
+            {!isCollapsed && (
+              <div className="pl-3 space-y-1">
+                {datasets.filter(d => d.folder === folder).map(renderDataset)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {ungrouped.map(renderDataset)}
+
+      {error && (
+        <div className="text-xs text-red-600 p-2 bg-red-50 rounded">
+          {error}
+        </div>
+      )}
+
+      {notice && !error && (
+        <div className="text-xs text-slate-600 p-2 bg-slate-50 rounded">
+          {notice}
+        </div>
+      )}
+    </div>
+  );
+}
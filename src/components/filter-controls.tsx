@@ -1,25 +1,27 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useEffect } from "react";
 import { Calendar, Hash, List, X, Filter as FilterIcon, ChevronDown, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useData, type Filter, type CategoryFilter, type DateFilter, type NumericFilter } from "@/components/data-provider";
+import { LoadingSpinner } from "@/components/ui/loading-states";
 import { cn } from "@/lib/utils";
+import { tRPCClient, type FilterOption } from "@/lib/trpc-client";
 
 interface FilterControlsProps {
-  data: any[];
-  onFiltersChange?: (filteredData: any[]) => void;
+  isApplying?: boolean; // The query is being re-run with the current filters
+  error?: string;
 }
 
-export function FilterControls({ data, onFiltersChange }: FilterControlsProps) {
+export function FilterControls({ isApplying, error }: FilterControlsProps) {
   const { 
     filters, 
     updateFilter, 
     clearFilters, 
-    getFilteredData,
+    getQueryFilters,
     currentDataset,
     availableFilters,
     setAvailableFilters 
@@ -28,101 +30,38 @@ export function FilterControls({ data, onFiltersChange }: FilterControlsProps) {
   const [showFilters, setShowFilters] = useState(false);
   const [expandedFilters, setExpandedFilters] = useState<Set<string>>(new Set());
 
-  // Generate available filters from current dataset schema and full dataset (not query results)
-  const generatedFilters = useMemo(() => {
-    if (!currentDataset) return [];
-    
-    // Use full dataset if available, otherwise use preview data for filter generation
-    const datasetForFilters = currentDataset.fullData || currentDataset.preview;
-    if (!datasetForFilters || datasetForFilters.length === 0) return [];
+  const [isLoadingOptions, setIsLoadingOptions] = useState(false);
 
-    return currentDataset.schema.map(column => {
-      const values = datasetForFilters.map(row => row[column.name]).filter(val => val !== null && val !== undefined && val !== "");
-      
-      if (column.type === "string") {
-        const uniqueValues = [...new Set(values.map(val => String(val)))].sort();
-        
-        // Skip single-value columns (not useful for filtering)
-        if (uniqueValues.length < 2) {
-          return null;
-        }
-        
-        // Skip columns that are clearly descriptive text rather than categories
-        const avgLength = uniqueValues.reduce((sum, val) => sum + val.length, 0) / uniqueValues.length;
-        const hasLongValues = uniqueValues.some(val => val.length > 100);
-        
-        // Skip if values are too long (likely descriptions, not categories)
-        if (avgLength > 50 || hasLongValues) {
-          return null;
-        }
-        
-        // Include all categorical columns that pass the above checks
-        return {
-          column: column.name,
-          type: "category" as const,
-          selectedValues: [],
-          availableValues: uniqueValues,
-        };
-      }
-      
-      if (column.type === "date") {
-        const dates = values.filter(val => !isNaN(Date.parse(val))).map(val => new Date(val).toISOString().split('T')[0]);
-        const sortedDates = dates.sort();
-        
-        // Include all date columns that have valid dates
-        if (sortedDates.length < 1) {
-          return null;
-        }
-        
-        return {
-          column: column.name,
-          type: "date" as const,
-          startDate: null,
-          endDate: null,
-          minDate: sortedDates[0] || new Date().toISOString().split('T')[0],
-          maxDate: sortedDates[sortedDates.length - 1] || sortedDates[0] || new Date().toISOString().split('T')[0],
-        };
-      }
-      
-      if (column.type === "number") {
-        const numbers = values.map(val => parseFloat(val)).filter(val => !isNaN(val));
-        
-        // Include all numeric columns that have valid numbers
-        if (numbers.length < 1) {
-          return null;
-        }
-        
-        const min = Math.min(...numbers);
-        const max = Math.max(...numbers);
-        
-        return {
-          column: column.name,
-          type: "numeric" as const,
-          minValue: null,
-          maxValue: null,
-          rangeMin: min,
-          rangeMax: max,
-        };
-      }
-      
-      return null;
-    }).filter(filter => filter !== null) as Filter[];
-  }, [currentDataset]);
+  // Type overrides change which columns can be filtered and how, so load the options again when they do
+  const schemaKey = currentDataset?.schema.map(col => `${col.name}:${col.type}`).join(",");
 
-  // Update available filters when they change
-  React.useEffect(() => {
-    if (generatedFilters.length > 0) {
-      setAvailableFilters(generatedFilters);
-    }
-  }, [generatedFilters, setAvailableFilters]);
+  // Filter options are computed over the whole stored dataset on the server, so they work at any size
+  useEffect(() => {
+    if (!currentDataset?.id) return;
 
-  // Apply filters and notify parent when filters change
-  React.useEffect(() => {
-    const filteredData = getFilteredData(data);
-    onFiltersChange?.(filteredData);
-  }, [filters, data, getFilteredData, onFiltersChange]);
+    let cancelled = false;
+    setIsLoadingOptions(true);
 
-  const activeFiltersCount = filters.length;
+    tRPCClient.getFilterOptions(currentDataset.id)
+      .then(result => {
+        if (cancelled || !result.success) return;
+        setAvailableFilters(result.options.map((option: FilterOption): Filter => {
+          if (option.type === "category") return { ...option, selectedValues: [] };
+          if (option.type === "date") return { ...option, startDate: null, endDate: null };
+          return { ...option, minValue: null, maxValue: null };
+        }));
+      })
+      .catch(err => console.error("Failed to load filter options:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingOptions(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentDataset?.id, schemaKey, setAvailableFilters]);
+
+  const activeFiltersCount = getQueryFilters().length;
 
   const toggleFilterExpansion = (filterColumn: string) => {
     setExpandedFilters(prev => {
@@ -302,22 +241,7 @@ export function FilterControls({ data, onFiltersChange }: FilterControlsProps) {
 
   // Don't show filters if no filterable columns available
   if (availableFilters.length === 0) {
-    // Show a message for large datasets where we don't have full data
-    const datasetForFilters = currentDataset.fullData || currentDataset.preview;
-    if (!datasetForFilters || datasetForFilters.length === 0) {
-      return null;
-    }
-    
-    // If we only have preview data and no filters generated, show a message
-    if (!currentDataset.fullData && availableFilters.length === 0) {
-      return (
-        <div className="text-sm text-slate-500 p-3 bg-slate-50 rounded-lg">
-          📊 Dataset too large for client-side filtering. Filters work with datasets under 5,000 rows.
-        </div>
-      );
-    }
-    
-    return null;
+    return isLoadingOptions ? <LoadingSpinner size="sm" message="Loading filters..." /> : null;
   }
 
   return (
@@ -337,6 +261,11 @@ export function FilterControls({ data, onFiltersChange }: FilterControlsProps) {
             </span>
           )}
         </Button>
+        {isApplying ? (
+          <LoadingSpinner size="sm" message="Updating results..." />
+        ) : error ? (
+          <span className="text-sm text-red-600">{error}</span>
+        ) : null}
       </div>
 
       {showFilters && (
@@ -369,9 +298,9 @@ export function FilterControls({ data, onFiltersChange }: FilterControlsProps) {
               {availableFilters.map(filter => renderCompactFilter(filter))}
             </div>
             
-            {filters.length > 0 && (
+            {activeFiltersCount > 0 && (
               <div className="text-xs text-slate-500 pt-2 border-t">
-                Showing {getFilteredData(data).length} of {data.length} rows
+                Applied to the dataset rows before the query aggregates them
               </div>
             )}
           </div>
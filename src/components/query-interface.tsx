@@ -1,12 +1,12 @@
 "use client";
 
 import React, { useState, useCallback } from "react";
-import { Send, Upload, Database, User, BarChart3 } from "lucide-react";
+import { Send, Upload, Database, User, BarChart3, Link2, Check, CornerDownRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { useData } from "@/components/data-provider";
-import { cn } from "@/lib/utils";
+import { cn, formatBytes } from "@/lib/utils";
 import { 
   LoadingSpinner, 
   ContextualLoading, 
@@ -14,10 +14,16 @@ import {
   EmptyState, 
   ProgressIndicator 
 } from "@/components/ui/loading-states";
-import { tRPCClient } from "@/lib/trpc-client";
+import { tRPCClient, type ConversationTurn } from "@/lib/trpc-client";
+import { ACCEPTED_EXTENSIONS, UNSUPPORTED_FILE_MESSAGE, formatFromFilename } from "@/lib/import-formats";
+
+// How many earlier questions are sent along for follow-ups
+const MAX_HISTORY_TURNS = 5;
+// Largest file the upload route accepts
+const MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
 
 export function QueryInterface() {
-  const { currentDataset, setCurrentDataset, addMessage, isLoading, setIsLoading, chatHistory } = useData();
+  const { currentDataset, setCurrentDataset, linkedDatasets, toggleLinkedDataset, addMessage, isLoading, setIsLoading, chatHistory, getQueryFilters } = useData();
   const [inputValue, setInputValue] = useState("");
   const [dragActive, setDragActive] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -30,9 +36,24 @@ export function QueryInterface() {
     title?: string;
     retryAction?: () => void;
   } | null>(null);
+  // A workbook with several sheets waiting for the user to pick one
+  const [sheetChoice, setSheetChoice] = useState<{
+    file: File;
+    uploadId: string;
+    sheets: { name: string; rowCount: number }[];
+  } | null>(null);
   const [uploadProgress, setUploadProgress] = useState<{
     step: number;
     steps: string[];
+    progress?: number;
+    detail?: string;
+  } | null>(null);
+  // Progress of the query currently being streamed: finished stages plus the latest partial LLM output
+  const [queryProgress, setQueryProgress] = useState<{
+    stages: string[];
+    sql?: string;
+    partial: string;
+    partialStage?: "sql" | "chart";
   } | null>(null);
 
 
@@ -46,6 +67,7 @@ export function QueryInterface() {
     setIsLoading(true);
     setLoadingType("analyzing");
     setError(null);
+    setQueryProgress({ stages: [], partial: "" });
 
     addMessage({ type: "user", content: userMessage });
 
@@ -60,10 +82,47 @@ export function QueryInterface() {
         throw new Error("Dataset ID is missing. Please reload the dataset.");
       }
 
-      const result = await tRPCClient.processQuery(userMessage, currentDataset.id);
+      // Send the last few answered questions on this dataset so follow-ups can refine them. The SQL is sent
+      // without panel filters, which the server adds to the new question itself.
+      const history: ConversationTurn[] = chatHistory
+        .filter(message => message.type === "assistant" && (message.baseSql || message.sql) && message.data &&
+          message.originalQuery && message.datasetId === currentDataset.id)
+        .slice(-MAX_HISTORY_TURNS)
+        .map(message => ({
+          query: message.originalQuery || "",
+          sql: message.baseSql || message.sql || "",
+          columns: Object.keys(message.data?.[0] || {}),
+          rowCount: message.totalRows ?? message.data?.length ?? 0,
+          chartType: message.chartType,
+        }));
+
+      // Filters already set in the analysis panel apply to new questions too
+      const filters = getQueryFilters();
 
-      // Handle response structure
-      const data = result.json || result;
+      const data = await tRPCClient.streamQuery(
+        userMessage,
+        currentDataset.id,
+        linkedDatasets.map(d => d.id),
+        history,
+        filters,
+        (event) => {
+          setQueryProgress(prev => {
+            if (!prev) return prev;
+            if (event.type === "token") {
+              // A new partial stream replaces the previous one
+              const partial = prev.partialStage === event.stage ? prev.partial + event.text : event.text;
+              return { ...prev, partial, partialStage: event.stage };
+            }
+            return {
+              ...prev,
+              stages: [...prev.stages, event.message],
+              sql: event.sql ?? prev.sql,
+              partial: "",
+              partialStage: undefined,
+            };
+          });
+        }
+      );
       
       if (data.success) {
         // Show generated SQL query and explanations
@@ -76,13 +135,17 @@ export function QueryInterface() {
         
         if (data.result && data.result.length > 0) {
           if (data.displayType === "number") {
-            const value = Object.values(data.result[0])[0];
-            const label = Object.keys(data.result[0])[0];
-            content += `**Result:** ${typeof value === 'number' ? value.toLocaleString() : value} ${label.replace(/_/g, ' ')}`;
-          } else if (data.displayType === "table") {
-            content += `**Results:** Found ${data.result.length} record${data.result.length !== 1 ? 's' : ''}. View the filtered data in the table on the right →`;
+            const values = Object.entries(data.result[0]).map(([label, value]) =>
+              `${typeof value === 'number' ? value.toLocaleString() : value} ${label.replace(/_/g, ' ')}`
+            );
+            content += `**Result${values.length > 1 ? 's' : ''}:** ${values.join(', ')}`;
           } else {
-            content += `**Results:** Found ${data.result.length} record${data.result.length !== 1 ? 's' : ''}. View the analysis in the panel on the right →`;
+            const total = data.totalRows ?? data.result.length;
+            const found = `**Results:** Found ${total.toLocaleString()} record${total !== 1 ? 's' : ''}`;
+            const shown = total > data.result.length ? ` (showing the first ${data.result.length})` : "";
+            content += data.displayType === "table"
+              ? `${found}${shown}. View the filtered data in the table on the right →`
+              : `${found}${shown}. View the analysis in the panel on the right →`;
           }
           
           addMessage({
@@ -93,6 +156,14 @@ export function QueryInterface() {
             sql: data.sql,
             explanations: data.explanations,
             originalQuery: userMessage,
+            chartType: data.interpretation?.chartType,
+            chartSpec: data.chartSpec,
+            datasetId: currentDataset.id,
+            basedOn: data.basedOnTurn !== undefined ? history[data.basedOnTurn]?.query : undefined,
+            baseSql: data.baseSql,
+            filters,
+            totalRows: data.totalRows,
+            nextCursor: data.nextCursor,
           });
         } else {
           // No results but query was successful
@@ -109,7 +180,7 @@ export function QueryInterface() {
         
         // Determine error type based on message content
         let errorType: "error" | "api" | "network" = "error";
-        if (errorMsg.includes("OpenAI") || errorMsg.includes("API key")) {
+        if (errorMsg.includes("LLM") || errorMsg.includes("OpenAI") || errorMsg.includes("API key")) {
           errorType = "api";
         } else if (errorMsg.includes("network") || errorMsg.includes("timeout")) {
           errorType = "network";
@@ -144,29 +215,73 @@ export function QueryInterface() {
     } finally {
       setIsLoading(false);
       setLoadingType(null);
+      setQueryProgress(null);
     }
   };
 
+  // Show an upload's result: the new dataset, the sheets to choose from, or why it failed
+  const handleUploadResult = useCallback((result: any, file: File, retryUpload: () => void): boolean => {
+    if (result.success && result.needsSheet) {
+      setSheetChoice({ file, uploadId: result.uploadId, sheets: result.sheets || [] });
+      return false;
+    }
+
+    if (result.success) {
+      const datasetId = result.datasetId || Math.random().toString(36).substr(2, 9);
+      const name = result.name || result.filename || file.name;
+
+      setCurrentDataset({
+        id: datasetId,
+        name,
+        schema: result.schema || [],
+        rowCount: result.rowCount || 0,
+        preview: result.preview || [],
+      });
+
+      addMessage({
+        type: "assistant",
+        content: `✅ Successfully uploaded "${name}"!\n\nDataset contains ${result.rowCount || 0} rows and ${(result.schema || []).length} columns.\n\nYou can now ask questions about your data.`
+      });
+      return true;
+    }
+
+    const errorMsg = result.error || "Unknown error occurred";
+
+    setError({
+      type: "error",
+      title: "Processing Failed",
+      message: `Could not process the file: ${errorMsg}. Please check that your file is properly formatted.`,
+      retryAction: retryUpload
+    });
+
+    addMessage({
+      type: "assistant",
+      content: `❌ Failed to process file: ${errorMsg}`
+    });
+    return false;
+  }, [setCurrentDataset, addMessage]);
+
   const processFile = useCallback(async (file: File) => {
     // Clear any existing errors
     setError(null);
+    setSheetChoice(null);
     
     // Validate file type
-    if (!file.name.endsWith(".csv")) {
+    if (!formatFromFilename(file.name)) {
       setError({
         type: "warning",
         title: "Invalid File Type",
-        message: "Please upload a CSV file. Only .csv files are supported for data analysis.",
+        message: `Please upload a supported data file. ${UNSUPPORTED_FILE_MESSAGE}`,
       });
       return;
     }
 
-    // Validate file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
+    // Validate file size (1GB limit, matching the upload route)
+    if (file.size > MAX_UPLOAD_BYTES) {
       setError({
         type: "warning",
         title: "File Too Large",
-        message: `File size is ${(file.size / (1024 * 1024)).toFixed(1)}MB. Please upload a file smaller than 5MB for optimal performance.`,
+        message: `File size is ${(file.size / (1024 * 1024)).toFixed(1)}MB. Please upload a file smaller than 1GB.`,
       });
       return;
     }
@@ -176,8 +291,8 @@ export function QueryInterface() {
     setLoadingType("upload");
     
     // Set up progress tracking
-    const steps = ["Reading", "Processing", "Analyzing", "Complete"];
-    setUploadProgress({ step: 0, steps });
+    const steps = ["Uploading", "Processing", "Complete"];
+    setUploadProgress({ step: 0, steps, progress: 0 });
 
     const retryUpload = () => {
       setError(null);
@@ -185,50 +300,20 @@ export function QueryInterface() {
     };
 
     try {
-      // Step 1: Reading file
-      setUploadProgress({ step: 0, steps });
-      const csvData = await file.text();
-      
-      // Step 2: Processing 
-      setUploadProgress({ step: 1, steps });
-      const result = await tRPCClient.processCSV(csvData, file.name);
-
-      // Step 3: Analyzing
-      setUploadProgress({ step: 2, steps });
-      
-      if (result.success) {
-        const datasetId = result.datasetId || Math.random().toString(36).substr(2, 9);
-        
-        setCurrentDataset({
-          id: datasetId,
-          name: result.filename || file.name,
-          schema: result.schema || [],
-          rowCount: result.rowCount || 0,
-          preview: result.preview || [],
-          fullData: result.fullData,
-        });
-        
-        // Step 4: Complete
-        setUploadProgress({ step: 3, steps });
-        
-        addMessage({
-          type: "assistant",
-          content: `✅ Successfully uploaded "${file.name}"!\n\nDataset contains ${result.rowCount || 0} rows and ${(result.schema || []).length} columns.\n\nYou can now ask questions about your data.`
-        });
-      } else {
-        const errorMsg = result.error || "Unknown error occurred";
-        
-        setError({
-          type: "error",
-          title: "Processing Failed",
-          message: `Could not process the CSV file: ${errorMsg}. Please check that your file is properly formatted.`,
-          retryAction: retryUpload
-        });
-        
-        addMessage({
-          type: "assistant",
-          content: `❌ Failed to process CSV file: ${errorMsg}`
+      // Step 1: Uploading; the server parses text formats as each chunk arrives
+      // Step 2: Processing; the last chunk's response only arrives once the dataset has been profiled and saved
+      const result = await tRPCClient.uploadFile(file, ({ receivedBytes, totalBytes, rowCount, finishing }) => {
+        setUploadProgress({
+          step: finishing ? 1 : 0,
+          steps,
+          progress: finishing ? undefined : totalBytes ? receivedBytes / totalBytes : 1,
+          detail: `${formatBytes(receivedBytes)} of ${formatBytes(totalBytes)}${rowCount ? ` · ${rowCount.toLocaleString()} rows parsed` : ""}`,
         });
+      });
+      
+      // Step 3: Complete
+      if (handleUploadResult(result, file, retryUpload)) {
+        setUploadProgress({ step: 2, steps });
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown error occurred";
@@ -257,7 +342,37 @@ export function QueryInterface() {
       setLoadingType(null);
       setUploadProgress(null);
     }
-  }, [setCurrentDataset, setIsLoading, addMessage]);
+  }, [setIsLoading, addMessage, handleUploadResult]);
+
+  const chooseSheet = async (sheet: string) => {
+    if (!sheetChoice) return;
+    const { file, uploadId } = sheetChoice;
+    setSheetChoice(null);
+    setError(null);
+    setIsLoading(true);
+    setLoadingType("upload");
+
+    try {
+      const result = await tRPCClient.chooseSheet(uploadId, sheet);
+      handleUploadResult(result, file, () => processFile(file));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : "Unknown error occurred";
+      setError({
+        type: "error",
+        title: "Processing Error",
+        message: `Error processing file: ${errorMsg}`,
+        retryAction: () => processFile(file)
+      });
+    } finally {
+      setIsLoading(false);
+      setLoadingType(null);
+    }
+  };
+
+  const cancelSheetChoice = () => {
+    if (sheetChoice) tRPCClient.cancelUpload(sheetChoice.uploadId).catch(() => {});
+    setSheetChoice(null);
+  };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -286,7 +401,7 @@ export function QueryInterface() {
           <EmptyState
             icon={Database}
             title="Welcome to CellByte Analytics"
-            description="Upload your CSV dataset or load sample data to begin analyzing your data with natural language queries powered by AI."
+            description="Upload your dataset or load sample data to begin analyzing your data with natural language queries powered by AI."
             variant="welcome"
             action={{
               label: "Load Sample Data",
@@ -296,16 +411,23 @@ export function QueryInterface() {
                 setError(null);
                 
                 try {
-                  const result = await tRPCClient.getSampleData("germany_sample");
+                  // The two sample files share brand/substance/indication columns, so load both and link them for joins
+                  const [result, treatmentCosts] = await Promise.all([
+                    tRPCClient.getSampleData("germany_sample"),
+                    tRPCClient.getSampleData("treatment_costs"),
+                  ]);
                   if (result.success) {
                     setCurrentDataset({
-                      id: "sample-germany",
-                      name: "Germany Sample Dataset", 
+                      id: result.datasetId || "sample-germany",
+                      name: result.name || "Germany Sample Dataset", 
                       schema: result.schema || [],
-                      rowCount: result.data?.length || 0,
-                      preview: result.data || [],
-                      fullData: result.fullData || result.data,
+                      rowCount: result.rowCount || 0,
+                      preview: result.preview || [],
                     });
+                    if (treatmentCosts.success && treatmentCosts.datasetId &&
+                        !linkedDatasets.some(d => d.id === treatmentCosts.datasetId)) {
+                      toggleLinkedDataset({ id: treatmentCosts.datasetId, name: treatmentCosts.name });
+                    }
                   } else {
                     setError({
                       type: "error",
@@ -347,7 +469,7 @@ export function QueryInterface() {
               <div className="text-center">
                 <Upload className="w-5 h-5 text-slate-400 mx-auto mb-2" />
                 <p className="text-sm text-slate-600 mb-2">
-                  Drag and drop your CSV file here, or
+                  Drag and drop your CSV, Excel, JSON or Parquet file here, or
                 </p>
                 <label htmlFor="file-upload">
                   <Button variant="outline" size="sm" className="cursor-pointer" asChild>
@@ -357,13 +479,39 @@ export function QueryInterface() {
                 <input
                   id="file-upload"
                   type="file"
-                  accept=".csv"
+                  accept={ACCEPTED_EXTENSIONS}
                   onChange={handleFileInput}
                   className="hidden"
                   disabled={isLoading}
                 />
               </div>
             </Card>
+
+            {sheetChoice && (
+              <Card className="p-4 mt-3">
+                <p className="text-sm text-slate-700 mb-3">
+                  &ldquo;{sheetChoice.file.name}&rdquo; has several sheets. Choose the one to import:
+                </p>
+                <div className="space-y-2">
+                  {sheetChoice.sheets.map(sheet => (
+                    <Button
+                      key={sheet.name}
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-between"
+                      onClick={() => chooseSheet(sheet.name)}
+                      disabled={isLoading}
+                    >
+                      <span className="truncate">{sheet.name}</span>
+                      <span className="text-xs text-slate-500">~{sheet.rowCount.toLocaleString()} rows</span>
+                    </Button>
+                  ))}
+                </div>
+                <Button variant="ghost" size="sm" className="w-full mt-2" onClick={cancelSheetChoice}>
+                  Cancel
+                </Button>
+              </Card>
+            )}
           </div>
 
 
@@ -401,6 +549,8 @@ export function QueryInterface() {
                   <ProgressIndicator
                     steps={uploadProgress.steps}
                     currentStep={uploadProgress.step}
+                    progress={uploadProgress.progress}
+                    detail={uploadProgress.detail}
                   />
                 </div>
               )}
@@ -442,6 +592,16 @@ export function QueryInterface() {
                     <span>{currentDataset.rowCount?.toLocaleString() || 0} rows</span>
                     <span>{currentDataset.schema?.length || 0} columns</span>
                   </div>
+                  {linkedDatasets.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      <Link2 className="w-3 h-3 text-blue-600" />
+                      {linkedDatasets.map(d => (
+                        <span key={d.id} className="text-xs px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full truncate max-w-[200px]">
+                          {d.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <Database className="w-5 h-5 text-purple-500 flex-shrink-0" />
               </div>
@@ -482,6 +642,12 @@ export function QueryInterface() {
                         <BarChart3 className="w-4 h-4 text-slate-600" />
                       </div>
                       <div className="flex-1 min-w-0">
+                        {message.basedOn && (
+                          <div className="flex items-center gap-1 text-xs text-slate-500 mb-2">
+                            <CornerDownRight className="w-3 h-3 flex-shrink-0" />
+                            <span className="truncate">Follow-up to &ldquo;{message.basedOn}&rdquo;</span>
+                          </div>
+                        )}
                         <div className="text-sm text-slate-800 whitespace-pre-wrap leading-relaxed">
                           {message.content}
                         </div>
@@ -502,12 +668,33 @@ export function QueryInterface() {
                   <div className="w-8 h-8 bg-slate-100 rounded-full flex items-center justify-center flex-shrink-0">
                     <BarChart3 className="w-4 h-4 text-slate-600" />
                   </div>
-                  <div className="flex-1">
+                  <div className="flex-1 min-w-0">
                     <ContextualLoading 
                       type="analyzing" 
                       size="sm"
-                      message="Analyzing your query with AI..."
+                      message={queryProgress?.partialStage === "chart" ? "Generating chart..." : "Analyzing your query with AI..."}
                     />
+                    {queryProgress && queryProgress.stages.length > 0 && (
+                      <ul className="mt-3 space-y-1">
+                        {queryProgress.stages.map((stage, i) => (
+                          <li key={i} className="flex items-center gap-2 text-xs text-slate-600">
+                            <Check className="w-3 h-3 text-green-600 flex-shrink-0" />
+                            {stage}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {queryProgress?.sql && (
+                      <pre className="mt-3 text-xs bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-wrap break-words text-slate-700">
+                        {queryProgress.sql}
+                      </pre>
+                    )}
+                    {queryProgress?.partial && (
+                      <pre className="mt-3 text-xs bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-wrap break-words text-slate-500 max-h-32 overflow-hidden">
+                        {/* Only the tail of long outputs (chart specifications) is useful while it streams */}
+                        {queryProgress.partial.slice(-600)}
+                      </pre>
+                    )}
                   </div>
                 </div>
               </div>
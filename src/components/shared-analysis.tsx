@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Copy, Database, Filter as FilterIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { DataVisualization } from "@/components/data-visualization";
+import { ErrorState, LoadingSpinner } from "@/components/ui/loading-states";
+import { tRPCClient, type QueryFilter } from "@/lib/trpc-client";
+import { defaultChartSpec } from "@/lib/chart-spec";
+
+type SharedAnalysisResult = Extract<Awaited<ReturnType<typeof tRPCClient.getSharedAnalysis>>, { success: true }>;
+
+function describeFilter(filter: QueryFilter): string {
+  if (filter.type === "category") return `${filter.column}: ${filter.values.join(", ")}`;
+  if (filter.type === "date") return `${filter.column}: ${filter.start || "any"} to ${filter.end || "any"}`;
+  return `${filter.column}: ${filter.min ?? "min"} - ${filter.max ?? "max"}`;
+}
+
+// Read-only view of a saved analysis, opened from its permalink. The analysis is run again against the current
+// rows of its dataset; "Open a copy" loads it into the chat as an editable session.
+export function SharedAnalysis({ analysisId }: { analysisId: string }) {
+  const [shared, setShared] = useState<SharedAnalysisResult | null>(null);
+  const [error, setError] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    tRPCClient.getSharedAnalysis(analysisId)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setShared(result);
+        } else {
+          setError(result.error || "Failed to open shared analysis");
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to open shared analysis");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId]);
+
+  const analysis = shared?.analysis;
+  const rows = shared?.result ?? [];
+
+  const renderResult = () => {
+    if (!analysis) return null;
+    if (rows.length === 0) {
+      return <div className="py-12 text-center text-sm text-slate-500">No rows match this analysis</div>;
+    }
+
+    if (analysis.displayType === "number") {
+      return (
+        <div className="flex flex-wrap items-center justify-center gap-x-12 gap-y-6 py-8 text-center">
+          {Object.entries(rows[0]).map(([label, value]) => (
+            <div key={label}>
+              <div className="text-4xl font-bold text-slate-900">
+                {typeof value === "number" ? value.toLocaleString() : String(value ?? "-")}
+              </div>
+              <div className="text-sm text-slate-600 capitalize">{label.replace(/_/g, " ")}</div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (analysis.displayType === "table") {
+      const columns = Object.keys(rows[0]);
+      return (
+        <div className="max-h-96 overflow-auto border border-slate-200 rounded">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {columns.map(col => (
+                  <th key={col} className="text-left px-3 py-2 font-medium text-slate-700 border-b border-slate-200">
+                    {col.replace(/_/g, " ").toUpperCase()}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  {columns.map(col => (
+                    <td key={col} className="px-3 py-2 text-slate-900">
+                      {typeof row[col] === "number" ? row[col].toLocaleString() : String(row[col] ?? "-")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    return (
+      <DataVisualization
+        data={rows}
+        spec={analysis.chartSpec ?? defaultChartSpec(analysis.chartType ?? "bar", rows)}
+        height={360}
+      />
+    );
+  };
+
+  return (
+    <div className="h-full bg-slate-50 overflow-y-auto">
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back to chat
+              </Button>
+            </Link>
+            <h1 className="text-xl font-semibold text-slate-900">Shared analysis</h1>
+            <span className="text-xs text-slate-600 bg-slate-200 px-2 py-0.5 rounded">Read-only</span>
+          </div>
+          {analysis && (
+            <Link href={`/?fork=${analysisId}`}>
+              <Button size="sm" className="flex items-center gap-2">
+                <Copy className="w-4 h-4" />
+                Open a copy to edit
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" message="Running the analysis..." />
+          </div>
+        ) : error || !shared || !analysis ? (
+          <ErrorState title="Couldn't open this analysis" message={error || "Analysis not found"} />
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{analysis.query || "Untitled analysis"}</CardTitle>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-600">
+                  <span className="flex items-center gap-1">
+                    <Database className="w-4 h-4" />
+                    {[shared.datasetName, ...shared.linkedDatasets.map(d => d.name)].join(" + ")}
+                  </span>
+                  <span>Saved {new Date(analysis.savedAt).toLocaleString()}</span>
+                  <span>
+                    {shared.totalRows > rows.length
+                      ? `Showing ${rows.length.toLocaleString()} of ${shared.totalRows.toLocaleString()} rows`
+                      : `${rows.length.toLocaleString()} row${rows.length !== 1 ? "s" : ""}`}
+                  </span>
+                </div>
+                {analysis.filters && analysis.filters.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
+                    <FilterIcon className="w-4 h-4 text-slate-500" />
+                    {analysis.filters.map(filter => (
+                      <span key={filter.column} className="text-xs bg-purple-50 text-purple-700 border border-purple-200 px-2 py-0.5 rounded">
+                        {describeFilter(filter)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>{renderResult()}</CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">SQL</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <pre className="text-xs bg-slate-900 text-slate-100 p-4 rounded overflow-x-auto whitespace-pre-wrap">{shared.sql}</pre>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
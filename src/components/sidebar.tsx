@@ -2,9 +2,11 @@
 
 import React from "react";
 import Image from "next/image";
-import { Plus, Folder, BarChart3, User, Settings, HelpCircle } from "lucide-react";
+import Link from "next/link";
+import { Plus, Folder, BarChart3, LayoutDashboard, User, Settings, HelpCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useData } from "@/components/data-provider";
+import { DatasetLibrary } from "@/components/dataset-library";
 
 export function Sidebar() {
   const { chatHistory, clearHistory } = useData();
@@ -45,6 +47,7 @@ export function Sidebar() {
             <Folder className="w-4 h-4" />
             <span>Folders</span>
           </div>
+          <DatasetLibrary />
         </div>
 
         <div className="mb-6">
@@ -73,6 +76,13 @@ export function Sidebar() {
             <BarChart3 className="w-4 h-4" />
             <span>Analysis</span>
           </div>
+          <Link
+            href="/dashboard"
+            className="flex items-center gap-2 text-xs text-slate-600 hover:text-slate-900 hover:bg-slate-100 p-2 rounded"
+          >
+            <LayoutDashboard className="w-3 h-3" />
+            Dashboard
+          </Link>
         </div>
       </div>
 
@@ -312,10 +312,12 @@ export function EmptyState({
 interface ProgressIndicatorProps {
   steps: string[];
   currentStep: number;
+  progress?: number; // 0-1 through the current step, shown as a bar when given
+  detail?: string;
   className?: string;
 }
 
-export function ProgressIndicator({ steps, currentStep, className }: ProgressIndicatorProps) {
+export function ProgressIndicator({ steps, currentStep, progress, detail, className }: ProgressIndicatorProps) {
   return (
     <div className={cn("w-full max-w-md mx-auto", className)}>
       <div className="flex items-center justify-between mb-2">
@@ -349,6 +351,15 @@ export function ProgressIndicator({ steps, currentStep, className }: ProgressInd
           </React.Fragment>
         ))}
       </div>
+      {progress !== undefined && (
+        <div className="mt-3 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-purple-600 transition-all duration-300"
+            style={{ width: `${Math.round(Math.min(Math.max(progress, 0), 1) * 100)}%` }}
+          />
+        </div>
+      )}
+      {detail && <p className="text-xs text-slate-500 mt-2 text-center">{detail}</p>}
     </div>
   );
 }
@@ -24,6 +24,16 @@ export const env = createEnv({
     ),
     OPENAI_API_KEY: z.string().optional(),
     ANTHROPIC_API_KEY: z.string().optional(),
+    // LLM backend selection - defaults to the first provider with credentials configured
+    LLM_PROVIDER: z.enum(["openai", "anthropic", "local"]).optional(),
+    LLM_SQL_MODEL: z.string().optional(),
+    LLM_CHART_MODEL: z.string().optional(),
+    // OpenAI-compatible local server (Ollama, vLLM, LM Studio, ...)
+    LOCAL_LLM_BASE_URL: z.string().url().optional(),
+    LOCAL_LLM_API_KEY: z.string().optional(),
+    // Generated SQL and charts are cached on disk under data/cache
+    LLM_CACHE_TTL_HOURS: z.coerce.number().positive().optional(),
+    LLM_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().optional(),
   },
 
   /**
@@ -45,6 +55,13 @@ export const env = createEnv({
     NEXTAUTH_URL: process.env.NEXTAUTH_URL || "http://localhost:3000",
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_SQL_MODEL: process.env.LLM_SQL_MODEL,
+    LLM_CHART_MODEL: process.env.LLM_CHART_MODEL,
+    LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+    LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY,
+    LLM_CACHE_TTL_HOURS: process.env.LLM_CACHE_TTL_HOURS,
+    LLM_CACHE_MAX_ENTRIES: process.env.LLM_CACHE_MAX_ENTRIES,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,185 @@
+import { z } from "zod";
+
+// A chart described as data rather than code. The chart model returns one of these as JSON, it is checked
+// against the result's columns, and DataVisualization draws it with Recharts - nothing generated is executed.
+
+export const CHART_MARKS = ["bar", "line", "area", "pie", "scatter"] as const;
+
+export const CHART_AGGREGATES = ["none", "sum", "avg", "min", "max", "count"] as const;
+
+export const LEGEND_POSITIONS = ["top", "bottom", "left", "right", "none"] as const;
+
+export type ChartMark = (typeof CHART_MARKS)[number];
+
+// More series than this can't be told apart by colour
+const MAX_SERIES = 12;
+
+export const CHART_COLORS = [
+  "#8884d8",
+  "#82ca9d",
+  "#ffc658",
+  "#ff7300",
+  "#00ff00",
+  "#ff00ff",
+  "#00ffff",
+  "#ff0000",
+];
+
+const color = z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, "Colors must be hex codes such as #8884d8");
+const label = z.string().max(80);
+
+// Keys the schema doesn't know are dropped rather than rejected; fields are checked by parseChartSpec
+export const chartSpecSchema = z.object({
+  mark: z.enum(CHART_MARKS),
+  title: z.string().max(120).optional(),
+  // Category, date or number along the horizontal axis (pie slices for pie charts)
+  x: z.object({
+    field: z.string(),
+    label: label.optional(),
+  }),
+  // One series per measure; rows sharing an x value are combined with the aggregate, "none" plots them as they are
+  y: z.array(z.object({
+    field: z.string(),
+    label: label.optional(),
+    aggregate: z.enum(CHART_AGGREGATES).default("none"),
+    color: color.optional(),
+  })).min(1).max(8),
+  // Splits the single measure into one series per value of this field, e.g. cost by year per therapeutic area
+  series: z.object({
+    field: z.string(),
+  }).optional(),
+  sort: z.object({
+    by: z.enum(["x", "y"]),
+    order: z.enum(["asc", "desc"]).default("asc"),
+  }).optional(),
+  // Title and scale of the value axis; a log scale leaves out zero and negative values
+  yAxis: z.object({
+    label: label.optional(),
+    scale: z.enum(["linear", "log"]).default("linear"),
+  }).optional(),
+  legend: z.enum(LEGEND_POSITIONS).optional(), // Defaults to below the chart
+  limit: z.number().int().min(1).max(1000).optional(),
+  stacked: z.boolean().optional(),
+  colors: z.array(color).max(MAX_SERIES).optional(),
+});
+
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+
+// Check a spec against the zod schema and the columns of the rows it will draw
+export function parseChartSpec(value: unknown, columns: string[]): { success: boolean; spec?: ChartSpec; error?: string } {
+  const parsed = chartSpecSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { success: false, error: `${issue.path.join(".") || "spec"}: ${issue.message}` };
+  }
+
+  const spec = parsed.data;
+  const fields = [spec.x.field, ...spec.y.map(y => y.field), ...(spec.series ? [spec.series.field] : [])];
+  const unknown = fields.find(field => !columns.includes(field));
+  if (unknown) {
+    return { success: false, error: `Unknown field "${unknown}". Available fields: ${columns.join(", ")}` };
+  }
+  if (spec.mark === "pie" && (spec.y.length > 1 || spec.series)) {
+    return { success: false, error: "Pie charts show a single measure without series." };
+  }
+  if (spec.series && spec.y.length > 1) {
+    return { success: false, error: "A series split can only be combined with a single y field." };
+  }
+
+  return { success: true, spec };
+}
+
+// The standard chart for a result: the first column along x and every numeric column as a measure
+export function defaultChartSpec(mark: ChartMark, data: Record<string, any>[]): ChartSpec {
+  const [xField = "x", ...valueFields] = Object.keys(data[0] || {});
+  const measureFields = valueFields.filter(field => data.some(row => typeof row[field] === "number"));
+  const yFields = measureFields.length > 0 ? measureFields : valueFields.slice(0, 1);
+
+  return {
+    mark,
+    x: { field: xField },
+    y: (mark === "pie" ? yFields.slice(0, 1) : yFields).map(field => ({ field, aggregate: "none" as const })),
+  };
+}
+
+export type ChartSeries = {
+  key: string; // Field of the chart rows holding the series' values
+  label: string;
+  color: string;
+};
+
+function aggregate(values: number[], aggregate: (typeof CHART_AGGREGATES)[number], count: number): number | null {
+  if (aggregate === "count") return count;
+  if (values.length === 0) return null;
+  if (aggregate === "sum") return values.reduce((sum, value) => sum + value, 0);
+  if (aggregate === "avg") return values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (aggregate === "min") return Math.min(...values);
+  if (aggregate === "max") return Math.max(...values);
+  return values[0];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+// Shape result rows into what the spec draws: rows combined per x value (and pivoted into one field per
+// series value), sorted and cut to the limit, plus the series to draw with their labels and colours
+export function buildChartData(data: Record<string, any>[], spec: ChartSpec): { rows: Record<string, any>[]; series: ChartSeries[] } {
+  const colorAt = (index: number) => spec.colors?.[index] ?? CHART_COLORS[index % CHART_COLORS.length];
+  const grouped = spec.series !== undefined || spec.y.some(y => y.aggregate !== "none");
+
+  let rows: Record<string, any>[];
+  let series: ChartSeries[];
+
+  if (!grouped) {
+    rows = data;
+    series = spec.y.map((y, index) => ({ key: y.field, label: y.label || y.field, color: y.color ?? colorAt(index) }));
+  } else {
+    const seriesField = spec.series?.field;
+    const seriesValues: string[] = [];
+    const groups = new Map<string, { x: unknown; rows: Record<string, any>[] }>();
+
+    data.forEach(row => {
+      const key = String(row[spec.x.field]);
+      if (!groups.has(key)) groups.set(key, { x: row[spec.x.field], rows: [] });
+      groups.get(key)!.rows.push(row);
+
+      const seriesValue = seriesField ? String(row[seriesField]) : "";
+      if (seriesField && !seriesValues.includes(seriesValue) && seriesValues.length < MAX_SERIES) seriesValues.push(seriesValue);
+    });
+
+    series = seriesField
+      ? seriesValues.map((value, index) => ({ key: value, label: value, color: colorAt(index) }))
+      : spec.y.map((y, index) => ({ key: y.field, label: y.label || y.field, color: y.color ?? colorAt(index) }));
+
+    rows = [...groups.values()].map(group => {
+      const row: Record<string, any> = { [spec.x.field]: group.x };
+      if (seriesField) {
+        const [y] = spec.y;
+        seriesValues.forEach(value => {
+          const matching = group.rows.filter(r => String(r[seriesField]) === value);
+          const values = matching.map(r => r[y.field]).filter((v): v is number => typeof v === "number");
+          row[value] = matching.length > 0 ? aggregate(values, y.aggregate, matching.length) : null;
+        });
+      } else {
+        spec.y.forEach(y => {
+          const values = group.rows.map(r => r[y.field]).filter((v): v is number => typeof v === "number");
+          row[y.field] = y.aggregate === "none" ? group.rows[0][y.field] : aggregate(values, y.aggregate, group.rows.length);
+        });
+      }
+      return row;
+    });
+  }
+
+  if (spec.sort) {
+    const key = spec.sort.by === "x" ? spec.x.field : series[0]?.key;
+    const direction = spec.sort.order === "desc" ? -1 : 1;
+    rows = [...rows].sort((a, b) => direction * compareValues(a[key], b[key]));
+  }
+  if (spec.limit) rows = rows.slice(0, spec.limit);
+
+  return { rows, series };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { parseNumber, profileColumns, toISODate } from "@/lib/column-profile";
+
+// Profile a single column from its values
+function profile(values: unknown[]) {
+  return profileColumns(values.map(value => ({ value })))[0];
+}
+
+describe("parseNumber", () => {
+  it.each([
+    ["1234.5", "decimal_point", 1234.5],
+    ["1,234.5", "decimal_point", 1234.5],
+    ["1.234,5", "decimal_comma", 1234.5],
+    ["12,5", "decimal_comma", 12.5],
+    ["1 234 567", "decimal_point", 1234567],
+    ["-3e2", "decimal_point", -300],
+  ] as const)("parses %s written with a %s", (text, format, expected) => {
+    expect(parseNumber(text, format)).toBe(expected);
+  });
+
+  it("reads a grouped value by the column's format", () => {
+    expect(parseNumber("1.234", "decimal_point")).toBe(1.234);
+    expect(parseNumber("1.234", "decimal_comma")).toBe(1234);
+  });
+
+  it("returns null for text", () => {
+    expect(parseNumber("12 apples")).toBeNull();
+    expect(parseNumber("")).toBeNull();
+  });
+});
+
+describe("toISODate", () => {
+  it("normalises the supported formats", () => {
+    expect(toISODate("2024-02-29")).toBe("2024-02-29");
+    expect(toISODate("2024-02-29 13:45")).toBe("2024-02-29T13:45");
+    expect(toISODate("1.3.2024")).toBe("2024-03-01");
+    expect(toISODate("2024/3/1")).toBe("2024-03-01");
+  });
+
+  it("rejects impossible dates and other values", () => {
+    expect(toISODate("2023-02-29")).toBeNull();
+    expect(toISODate("31.04.2024")).toBeNull();
+    expect(toISODate("03/01/2024")).toBeNull();
+    expect(toISODate(20240301)).toBeNull();
+  });
+});
+
+describe("profileColumns", () => {
+  it("infers numbers past empty leading values", () => {
+    const column = profile(["", null, "10", "20.5", "30"]);
+    expect(column.type).toBe("number");
+    expect(column.nullCount).toBe(2);
+    expect(column.nullable).toBe(true);
+    expect(column.mixed).toBe(false);
+  });
+
+  it("picks the decimal comma when most values need it", () => {
+    const column = profile(["1.234,5", "12,75", "3", "4"]);
+    expect(column.type).toBe("number");
+    expect(column.numberFormat).toBe("decimal_comma");
+  });
+
+  it("keeps a number column when a few values are text", () => {
+    const values = [...Array.from({ length: 19 }, (_, i) => String(i)), "n/a"];
+    const column = profile(values);
+    expect(column.type).toBe("number");
+    expect(column.confidence).toBe(0.95);
+    expect(column.mixed).toBe(true);
+  });
+
+  it("falls back to text when numbers and words are evenly mixed", () => {
+    const column = profile(["1", "2", "three", "four"]);
+    expect(column.type).toBe("string");
+    expect(column.mixed).toBe(true);
+    expect(column.explanation).toContain("50% of values look like numbers");
+  });
+
+  it("infers dates written in several formats", () => {
+    const column = profile(["2024-01-31", "1.2.2024", "2024/03/15", "2024-04-01T08:00"]);
+    expect(column.type).toBe("date");
+    expect(column.confidence).toBe(1);
+  });
+
+  it("treats a column of dates and numbers as text", () => {
+    const column = profile(["2024-01-31", "2024-02-29", "42", "17"]);
+    expect(column.type).toBe("string");
+    expect(column.mixed).toBe(true);
+  });
+
+  it("applies a type override but reports what was inferred", () => {
+    const [column] = profileColumns([{ code: "1" }, { code: "2" }], { code: "string" });
+    expect(column.type).toBe("string");
+    expect(column.override).toBe(true);
+    expect(column.explanation).toBe("Set to string by the user (inferred as number)");
+  });
+
+  it("profiles columns that only appear in later rows", () => {
+    const columns = profileColumns([{ a: "1" }, { a: "2", b: "true" }]);
+    expect(columns.map(column => [column.name, column.type])).toEqual([["a", "number"], ["b", "boolean"]]);
+  });
+});
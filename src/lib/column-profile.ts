@@ -0,0 +1,220 @@
+// Column type inference shared by uploads, the query engine, the offline planner and the filter controls.
+// Every column is profiled from all of its values (or an evenly spaced sample for large datasets) instead of the
+// first row, so empty leading values, thousand separators and decimal commas don't decide the type on their own.
+
+export type ColumnType = "string" | "number" | "date" | "boolean";
+
+// How numeric strings are written: "1,234.5" (decimal point) or "1.234,5" (decimal comma)
+export type NumberFormat = "decimal_point" | "decimal_comma";
+
+export type ColumnProfile = {
+  name: string;
+  type: ColumnType;
+  sample: string;
+  nullable: boolean; // Some values are empty
+  nullCount: number;
+  confidence: number; // 0-1, share of non-empty values that agree with the type
+  mixed: boolean; // Non-empty values of more than one kind
+  numberFormat?: NumberFormat;
+  override?: boolean; // The type was set by the user rather than inferred
+  explanation: string;
+};
+
+export type TypeOverrides = Record<string, ColumnType>;
+
+// Large datasets are profiled from an evenly spaced sample of this many rows
+export const PROFILE_SAMPLE_SIZE = 10000;
+
+// Below this share of matching values a column is treated as text
+const MIN_CONFIDENCE = 0.9;
+
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const POINT_GROUPED = /^[-+]?\d{1,3}([,\s']\d{3})+(\.\d+)?$/; // 1,234,567.89
+const COMMA_GROUPED = /^[-+]?\d{1,3}([.\s']\d{3})+(,\d+)?$/; // 1.234.567,89
+const COMMA_DECIMAL = /^[-+]?\d*,\d+$/; // 12,5
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const DOTTED_DATE = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/; // 31.12.2024
+const SLASHED_ISO_DATE = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/; // 2024/12/31
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Normalise a date value to YYYY-MM-DD (keeping the time for timestamps); null when it isn't a date
+export function toISODate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    return isValidDate(Number(iso[1]), Number(iso[2]), Number(iso[3])) ? text.replace(" ", "T") : null;
+  }
+
+  const pad = (part: string) => part.padStart(2, "0");
+  const dotted = text.match(DOTTED_DATE);
+  if (dotted) {
+    return isValidDate(Number(dotted[3]), Number(dotted[2]), Number(dotted[1])) ? `${dotted[3]}-${pad(dotted[2])}-${pad(dotted[1])}` : null;
+  }
+
+  const slashed = text.match(SLASHED_ISO_DATE);
+  if (slashed) {
+    return isValidDate(Number(slashed[1]), Number(slashed[2]), Number(slashed[3])) ? `${slashed[1]}-${pad(slashed[2])}-${pad(slashed[3])}` : null;
+  }
+
+  return null;
+}
+
+// Which format a numeric string must be written in, or "either" when it reads the same way in both
+function numberFormatOf(text: string): NumberFormat | "either" | null {
+  if (PLAIN_NUMBER.test(text)) {
+    // "1.234" could be 1234 with a grouping dot, but a plain decimal is far more common
+    return "either";
+  }
+  if (POINT_GROUPED.test(text)) {
+    // "1,234" alone is also a valid decimal comma number
+    return /^[-+]?\d{1,3},\d{3}$/.test(text) ? "either" : "decimal_point";
+  }
+  if (COMMA_GROUPED.test(text) || COMMA_DECIMAL.test(text)) return "decimal_comma";
+  return null;
+}
+
+// Parse a number written with thousand separators and a decimal point or comma; null when it isn't a number
+export function parseNumber(value: unknown, format: NumberFormat = "decimal_point"): number | null {
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (typeof value !== "string") return null;
+
+  const text = value.trim();
+  const kind = numberFormatOf(text);
+  if (!kind) return null;
+
+  if (PLAIN_NUMBER.test(text) && !(format === "decimal_comma" && COMMA_GROUPED.test(text))) {
+    return Number(text);
+  }
+
+  const normalised = format === "decimal_comma" || kind === "decimal_comma"
+    ? text.replace(/[.\s']/g, "").replace(",", ".")
+    : text.replace(/[,\s']/g, "");
+  const parsed = Number(normalised);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+  return text === "true" ? true : text === "false" ? false : null;
+}
+
+// Evenly spaced rows so the whole file is represented, not just its head
+function sampleRows(rows: Record<string, any>[], size: number): Record<string, any>[] {
+  if (rows.length <= size) return rows;
+  const step = rows.length / size;
+  return Array.from({ length: size }, (_, i) => rows[Math.floor(i * step)]);
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+function profileColumn(name: string, values: unknown[], override?: ColumnType): ColumnProfile {
+  const present = values.filter(value => !isEmpty(value));
+  const nullCount = values.length - present.length;
+  const sample = String(present[0] ?? "").substring(0, 50);
+
+  let numbers = 0;
+  let dates = 0;
+  let booleans = 0;
+  let pointVotes = 0;
+  let commaVotes = 0;
+
+  for (const value of present) {
+    if (typeof value === "number") {
+      numbers++;
+      continue;
+    }
+    if (parseBoolean(value) !== null) {
+      booleans++;
+      continue;
+    }
+    if (toISODate(value) !== null) {
+      dates++;
+      continue;
+    }
+    const format = typeof value === "string" ? numberFormatOf(value.trim()) : null;
+    if (format) {
+      numbers++;
+      if (format === "decimal_point") pointVotes++;
+      if (format === "decimal_comma") commaVotes++;
+    }
+  }
+
+  const total = present.length;
+  const ratios: Record<Exclude<ColumnType, "string">, number> = {
+    number: total ? numbers / total : 0,
+    date: total ? dates / total : 0,
+    boolean: total ? booleans / total : 0,
+  };
+  const [bestType, bestRatio] = (Object.entries(ratios) as [Exclude<ColumnType, "string">, number][])
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+  const inferred: ColumnType = total > 0 && bestRatio >= MIN_CONFIDENCE ? bestType : "string";
+  const type = override ?? inferred;
+  // For text, confidence drops as more of the values look like another type
+  const confidence = type === "string" ? 1 - bestRatio : ratios[type];
+  const mixed = total > 0 && (type === "string" ? bestRatio > 0 : confidence < 1);
+  const numberFormat = type === "number" ? (commaVotes > pointVotes ? "decimal_comma" : "decimal_point") : undefined;
+
+  let explanation: string;
+  if (override) {
+    explanation = `Set to ${override} by the user (inferred as ${inferred})`;
+  } else if (total === 0) {
+    explanation = "No values to infer a type from";
+  } else if (type === "string") {
+    explanation = bestRatio > 0
+      ? `Detected as text; ${percent(bestRatio)} of values look like ${bestType}s`
+      : "Detected as text/categorical";
+  } else {
+    explanation = `Detected as ${type} (${percent(confidence)} of ${total} values${numberFormat === "decimal_comma" ? ", decimal comma" : ""})`;
+  }
+
+  return {
+    name,
+    type,
+    sample,
+    nullable: nullCount > 0,
+    nullCount,
+    confidence: Math.round(confidence * 1000) / 1000,
+    mixed,
+    ...(numberFormat && { numberFormat }),
+    ...(override && { override: true }),
+    explanation,
+  };
+}
+
+// Profile every column of a dataset, applying any types the user has overridden
+export function profileColumns(
+  rows: Record<string, any>[],
+  overrides: TypeOverrides = {}
+): ColumnProfile[] {
+  if (!rows.length) return [];
+
+  const sampled = sampleRows(rows, PROFILE_SAMPLE_SIZE);
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const row of sampled) {
+    for (const name of Object.keys(row)) {
+      if (!seen.has(name)) {
+        seen.add(name);
+        names.push(name);
+      }
+    }
+  }
+
+  return names.map(name => profileColumn(name, sampled.map(row => row[name]), overrides[name]));
+}
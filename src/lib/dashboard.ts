@@ -0,0 +1,38 @@
+import { type ChartSpec } from "@/lib/chart-spec";
+import { type QueryFilter } from "@/lib/trpc-client";
+
+// Analyses pinned to the dashboard. A tile keeps what is needed to answer its question again - the SQL,
+// filters and chart settings - rather than the rows, and is re-executed against its dataset when the
+// dashboard is opened.
+
+export const DASHBOARD_COLUMNS = 4;
+export const MAX_TILE_ROWS = 4;
+
+export type TileLayout = {
+  columns: number; // Grid columns the tile spans, 1 to DASHBOARD_COLUMNS
+  rows: number; // Grid rows the tile spans, 1 to MAX_TILE_ROWS
+};
+
+export const DEFAULT_TILE_LAYOUT: TileLayout = { columns: 2, rows: 2 };
+
+export type DashboardTile = {
+  id: string;
+  title: string;
+  query: string;
+  datasetId: string;
+  joinDatasetIds?: string[];
+  sql: string; // Generated SQL before filters; the filters are applied again on every run
+  filters?: QueryFilter[];
+  displayType: "number" | "chart" | "table";
+  chartType?: "bar" | "line" | "pie";
+  chartSpec?: ChartSpec; // Chart as generated or edited; without one the standard chart for chartType is drawn
+  layout: TileLayout;
+  pinnedAt: string;
+};
+
+export function clampLayout(layout: TileLayout): TileLayout {
+  return {
+    columns: Math.min(Math.max(Math.round(layout.columns), 1), DASHBOARD_COLUMNS),
+    rows: Math.min(Math.max(Math.round(layout.rows), 1), MAX_TILE_ROWS),
+  };
+}
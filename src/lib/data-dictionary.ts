@@ -0,0 +1,45 @@
+// A dataset's data dictionary: what each column means, written by the user and stored with the dataset.
+// It is edited from the schema view and added to the SQL and chart prompts, so the model reads columns the
+// way the people who own the data do.
+
+export type ColumnDescription = {
+  description?: string;
+  unit?: string; // e.g. "EUR per year"
+  synonyms?: string[]; // Other names people use for the column
+  allowedValues?: string[]; // Values a categorical column takes, spelled as stored
+  doNotAggregate?: boolean; // Identifiers and codes that must never be summed or averaged
+};
+
+export type DataDictionary = Record<string, ColumnDescription>;
+
+function cleanList(values: string[] | undefined): string[] | undefined {
+  const cleaned = Array.from(new Set((values ?? []).map(value => value.trim()).filter(Boolean)));
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+// Trim the entry and drop empty fields; null when nothing is left, so a cleared entry is removed
+export function cleanColumnDescription(entry: ColumnDescription): ColumnDescription | null {
+  const cleaned: ColumnDescription = {
+    description: entry.description?.trim() || undefined,
+    unit: entry.unit?.trim() || undefined,
+    synonyms: cleanList(entry.synonyms),
+    allowedValues: cleanList(entry.allowedValues),
+    doNotAggregate: entry.doNotAggregate || undefined,
+  };
+  (Object.keys(cleaned) as (keyof ColumnDescription)[]).forEach(key => {
+    if (cleaned[key] === undefined) delete cleaned[key];
+  });
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
+
+// The entry as one line of prompt text, e.g. `annual list price; unit: EUR; also called "price", "cost"`
+export function describeColumn(entry: ColumnDescription | undefined): string {
+  if (!entry) return "";
+  return [
+    entry.description,
+    entry.unit && `unit: ${entry.unit}`,
+    entry.synonyms && `also called ${entry.synonyms.map(synonym => `"${synonym}"`).join(", ")}`,
+    entry.allowedValues && `values: ${entry.allowedValues.map(value => `'${value}'`).join(", ")}`,
+    entry.doNotAggregate && "identifier - do not aggregate",
+  ].filter(Boolean).join("; ");
+}
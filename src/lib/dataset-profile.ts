@@ -0,0 +1,185 @@
+import { parseNumber, parseBoolean, toISODate, type ColumnProfile } from "@/lib/column-profile";
+
+// Per-column statistics and data-quality flags for a whole stored dataset, shown in the analysis panel.
+// Values are read with the same parsing the query engine uses, so the numbers match what queries see.
+
+export type ColumnIssue = {
+  code: "mostly_empty" | "constant" | "mixed_types" | "outliers";
+  message: string;
+};
+
+export type HistogramBin = {
+  start: number | string; // Dates are reported as ISO strings
+  end: number | string;
+  count: number;
+};
+
+export type ColumnStats = {
+  name: string;
+  type: ColumnProfile["type"];
+  emptyCount: number;
+  emptyRatio: number;
+  distinctCount: number;
+  invalidCount: number; // Non-empty values that don't parse as the column's type
+  topValues: { value: string; count: number }[];
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    q1: number;
+    q3: number;
+    stdDev: number;
+    outlierCount: number;
+  };
+  dates?: { min: string; max: string };
+  text?: { minLength: number; maxLength: number; meanLength: number };
+  histogram?: HistogramBin[];
+  issues: ColumnIssue[];
+};
+
+export type DatasetProfile = {
+  rowCount: number;
+  columns: ColumnStats[];
+  issueCount: number;
+};
+
+const TOP_VALUES = 5;
+const HISTOGRAM_BINS = 10;
+const MOSTLY_EMPTY_RATIO = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Linear interpolation between the closest ranks, on an already sorted array
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function histogram(sorted: number[]): { start: number; end: number; count: number }[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ start: min, end: max, count: sorted.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  for (const value of sorted) {
+    bins[Math.min(Math.floor((value - min) / width), HISTOGRAM_BINS - 1)].count++;
+  }
+  return bins;
+}
+
+function describeNumbers(sorted: number[]): NonNullable<ColumnStats["numeric"]> {
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  // Tukey's fences: values more than 1.5 IQR outside the middle half
+  const iqr = q3 - q1;
+  const outlierCount = iqr > 0 ? sorted.filter(value => value < q1 - 1.5 * iqr || value > q3 + 1.5 * iqr).length : 0;
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: round(mean),
+    median: round(quantile(sorted, 0.5)),
+    q1: round(q1),
+    q3: round(q3),
+    stdDev: round(Math.sqrt(variance)),
+    outlierCount,
+  };
+}
+
+function profileColumnValues(column: ColumnProfile, values: unknown[]): ColumnStats {
+  const present = values.filter(value => !isEmpty(value));
+  const emptyCount = values.length - present.length;
+
+  const frequencies = new Map<string, number>();
+  for (const value of present) {
+    const key = String(value).trim();
+    frequencies.set(key, (frequencies.get(key) || 0) + 1);
+  }
+  const topValues = [...frequencies.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+
+  const stats: ColumnStats = {
+    name: column.name,
+    type: column.type,
+    emptyCount,
+    emptyRatio: values.length ? round(emptyCount / values.length) : 0,
+    distinctCount: frequencies.size,
+    invalidCount: 0,
+    topValues,
+    issues: [],
+  };
+
+  if (column.type === "number") {
+    const numbers = present.map(value => parseNumber(value, column.numberFormat)).filter((value): value is number => value !== null);
+    stats.invalidCount = present.length - numbers.length;
+    if (numbers.length > 0) {
+      const sorted = numbers.sort((a, b) => a - b);
+      stats.numeric = describeNumbers(sorted);
+      stats.histogram = histogram(sorted).map(bin => ({ ...bin, start: round(bin.start), end: round(bin.end) }));
+    }
+  } else if (column.type === "date") {
+    const dates = present.map(value => toISODate(value)).filter((value): value is string => value !== null);
+    stats.invalidCount = present.length - dates.length;
+    if (dates.length > 0) {
+      const days = dates.map(date => Date.parse(date.substring(0, 10)) / DAY_MS).sort((a, b) => a - b);
+      const toDate = (day: number) => new Date(Math.round(day) * DAY_MS).toISOString().substring(0, 10);
+      stats.dates = { min: toDate(days[0]), max: toDate(days[days.length - 1]) };
+      stats.histogram = histogram(days).map(bin => ({ ...bin, start: toDate(bin.start), end: toDate(bin.end) }));
+    }
+  } else if (column.type === "boolean") {
+    stats.invalidCount = present.filter(value => parseBoolean(value) === null).length;
+  } else if (column.type === "string" && present.length > 0) {
+    const lengths = present.map(value => String(value).length);
+    stats.text = {
+      minLength: lengths.reduce((min, length) => Math.min(min, length), Infinity),
+      maxLength: lengths.reduce((max, length) => Math.max(max, length), 0),
+      meanLength: round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length),
+    };
+  }
+
+  if (values.length > 0 && stats.emptyRatio >= MOSTLY_EMPTY_RATIO) {
+    stats.issues.push({ code: "mostly_empty", message: `${Math.round(stats.emptyRatio * 100)}% of values are empty` });
+  }
+  if (stats.distinctCount === 1 && values.length > 1) {
+    stats.issues.push({ code: "constant", message: `Every value is "${topValues[0].value}"` });
+  }
+  if (stats.invalidCount > 0) {
+    const treatment = column.type === "date" ? "kept as text" : "treated as empty";
+    stats.issues.push({
+      code: "mixed_types",
+      message: `${stats.invalidCount} value${stats.invalidCount !== 1 ? "s" : ""} can't be read as ${column.type} and ${stats.invalidCount !== 1 ? "are" : "is"} ${treatment} in queries`,
+    });
+  } else if (column.type === "string" && column.mixed) {
+    stats.issues.push({ code: "mixed_types", message: column.explanation });
+  }
+  if (stats.numeric && stats.numeric.outlierCount > 0) {
+    stats.issues.push({ code: "outliers", message: `${stats.numeric.outlierCount} value${stats.numeric.outlierCount !== 1 ? "s" : ""} far outside the typical range (1.5× IQR)` });
+  }
+
+  return stats;
+}
+
+// Profile every column of a dataset using its stored schema (including type overrides)
+export function profileDataset(rows: Record<string, any>[], schema: ColumnProfile[]): DatasetProfile {
+  const columns = schema.map(column => profileColumnValues(column, rows.map(row => row[column.name])));
+  return {
+    rowCount: rows.length,
+    columns,
+    issueCount: columns.reduce((total, column) => total + column.issues.length, 0),
+  };
+}
@@ -0,0 +1,34 @@
+// File types the upload route can import, shared by the upload form and the server-side readers.
+
+export type ImportFormat = "csv" | "tsv" | "ndjson" | "json" | "excel" | "parquet";
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  ".csv": "csv",
+  ".tsv": "tsv",
+  ".tab": "tsv",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".json": "json",
+  ".xlsx": "excel",
+  ".xls": "excel",
+  ".parquet": "parquet",
+};
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  ndjson: "NDJSON",
+  json: "JSON",
+  excel: "Excel",
+  parquet: "Parquet",
+};
+
+// For the file input's accept attribute
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSIONS).join(",");
+
+export const UNSUPPORTED_FILE_MESSAGE = "Only CSV, TSV, JSON, NDJSON, Excel (.xlsx, .xls) and Parquet files are supported for data analysis.";
+
+export function formatFromFilename(filename: string): ImportFormat | null {
+  const match = filename.toLowerCase().match(/\.[a-z]+$/);
+  return (match && EXTENSIONS[match[0]]) || null;
+}
@@ -118,38 +118,3 @@ export const SAMPLE_TREATMENT_COSTS_DATA = [
     success_rate: 0.95
   },
 ];
-
-export function inferSchema(data: any[]) {
-  if (!data.length) {
-    return [];
-  }
-  
-  const firstRow = data[0];
-  const schema = Object.keys(firstRow).map(key => {
-    const value = firstRow[key];
-    let type: "string" | "number" | "date" | "boolean" = "string";
-    
-    if (typeof value === "number") {
-      type = "number";
-    } else if (typeof value === "boolean") {
-      type = "boolean";
-    } else if (typeof value === "string") {
-      // Try to detect dates
-      if (!isNaN(Date.parse(value)) && value.includes("-")) {
-        type = "date";
-      }
-      // Try to detect numbers in string format
-      else if (!isNaN(Number(value))) {
-        type = "number";
-      }
-    }
-    
-    return {
-      name: key,
-      type,
-      sample: String(value)
-    };
-  });
-  
-  return schema;
-}
@@ -0,0 +1,37 @@
+import { type ChartSpec } from "@/lib/chart-spec";
+import { type QueryFilter } from "@/lib/trpc-client";
+
+// A completed analysis kept on the server so it can be opened from a permalink. Like a dashboard tile it
+// holds the question, SQL, filters and chart rather than the rows, and is re-executed when opened.
+
+export type SavedAnalysis = {
+  id: string;
+  query: string;
+  datasetId: string;
+  joinDatasetIds?: string[];
+  sql: string; // Generated SQL before filters; the filters are applied again when it is opened
+  filters?: QueryFilter[];
+  displayType: "number" | "chart" | "table";
+  chartType?: "bar" | "line" | "pie";
+  chartSpec?: ChartSpec;
+  savedAt: string;
+};
+
+// What opening a permalink returns: the analysis, run again, with the names of the datasets it used
+export type SharedAnalysisResponse =
+  | {
+      success: true;
+      analysis: SavedAnalysis;
+      sql: string;
+      result: Record<string, any>[]; // First page of the rows
+      totalRows: number;
+      nextCursor: number | null; // Offset of the next page, null when complete
+      explanations: string;
+      datasetName: string;
+      linkedDatasets: { id: string; name: string }[];
+    }
+  | { success: false; error: string; details?: string };
+
+export function analysisPath(id: string): string {
+  return `/analysis/${id}`;
+}
@@ -1,3 +1,69 @@
+import { type ColumnDescription } from "@/lib/data-dictionary";
+import { type DashboardTile, type TileLayout } from "@/lib/dashboard";
+import { type SavedAnalysis, type SharedAnalysisResponse } from "@/lib/saved-analysis";
+
+/**
+ * A previous question and the shape of its answer, sent along so the server can resolve follow-ups
+ */
+export type ConversationTurn = {
+  query: string;
+  sql: string;
+  columns: string[];
+  rowCount: number;
+  chartType?: "bar" | "line" | "pie";
+};
+
+/**
+ * A filter from the analysis panel, applied to the dataset's rows before the query aggregates them
+ */
+export type QueryFilter =
+  | { column: string; type: "category"; values: string[] }
+  | { column: string; type: "date"; start: string | null; end: string | null }
+  | { column: string; type: "numeric"; min: number | null; max: number | null };
+
+/**
+ * A column the analysis panel can filter by, with its values or range over the whole dataset
+ */
+export type FilterOption =
+  | { column: string; type: "category"; availableValues: string[] }
+  | { column: string; type: "date"; minDate: string; maxDate: string }
+  | { column: string; type: "numeric"; rangeMin: number; rangeMax: number };
+
+/**
+ * Unwrap a single (non-batched) tRPC response, with or without the superjson envelope
+ */
+function unwrapResult(data: any) {
+  const result = Array.isArray(data) ? data[0] : data;
+  if (result?.result?.data?.json !== undefined) {
+    return result.result.data.json;
+  } else if (result?.result?.data !== undefined) {
+    return result.result.data;
+  }
+  throw new Error("Unexpected response format from server");
+}
+
+async function callQuery(procedure: string, input?: Record<string, unknown>) {
+  const inputParam = JSON.stringify({ "0": { "json": input ?? null } });
+  const response = await fetch(`/api/trpc/${procedure}?batch=1&input=${encodeURIComponent(inputParam)}`, {
+    method: "GET",
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  return unwrapResult(await response.json());
+}
+
+async function callMutation(procedure: string, input: Record<string, unknown>) {
+  const response = await fetch(`/api/trpc/${procedure}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ "json": input }),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  return unwrapResult(await response.json());
+}
+
+// Size of each request body in chunked uploads
+const UPLOAD_CHUNK_BYTES = 2 * 1024 * 1024;
+
 /**
  * tRPC Client Functions
  */
@@ -28,59 +94,260 @@ export const tRPCClient = {
     }
   },
   
-  async processCSV(csvData: string, filename: string) {
-    const response = await fetch("/api/trpc/data.processCSV", {
+  /**
+   * Upload a data file to /api/upload in fixed-size chunks, sent one after another so no request carries the
+   * whole file. onProgress receives the bytes the server has received so far, and is called with finishing
+   * set before the last chunk, whose response only comes once the whole dataset has been stored. The returned
+   * promise resolves with the stored dataset in the same shape getDataset returns, or with needsSheet and the sheets of a
+   * multi-sheet workbook
+   */
+  async uploadFile(
+    file: File,
+    onProgress?: (progress: { receivedBytes: number; totalBytes: number; rowCount: number; finishing: boolean }) => void
+  ) {
+    const chunkCount = Math.max(Math.ceil(file.size / UPLOAD_CHUNK_BYTES), 1);
+    let uploadId = "";
+    let rowCount = 0;
+
+    try {
+      for (let index = 0; index < chunkCount; index++) {
+        const isLast = index === chunkCount - 1;
+        if (isLast) onProgress?.({ receivedBytes: index * UPLOAD_CHUNK_BYTES, totalBytes: file.size, rowCount, finishing: true });
+
+        const form = new FormData();
+        form.append("chunk", file.slice(index * UPLOAD_CHUNK_BYTES, (index + 1) * UPLOAD_CHUNK_BYTES));
+        form.append("index", String(index));
+        if (uploadId) {
+          form.append("uploadId", uploadId);
+        } else {
+          form.append("filename", file.name);
+          form.append("size", String(file.size));
+        }
+        if (isLast) form.append("final", "true");
+
+        const response = await fetch("/api/upload", { method: "POST", body: form });
+        const data = await response.json().catch(() => null);
+        // Rejected uploads come back as { success: false, error } and are already discarded on the server
+        if (data?.success === false) return data;
+        if (!response.ok || !data) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+
+        if (isLast) return data;
+        uploadId = data.uploadId;
+        rowCount = data.rowCount;
+        onProgress?.({ receivedBytes: data.receivedBytes, totalBytes: file.size, rowCount, finishing: false });
+      }
+    } catch (error) {
+      // Free the partial dataset on the server rather than waiting for it to expire
+      if (uploadId) fetch(`/api/upload?uploadId=${encodeURIComponent(uploadId)}`, { method: "DELETE" }).catch(() => {});
+      throw error;
+    }
+
+    throw new Error("Upload ended before the server returned a result");
+  },
+
+  /**
+   * Finish an uploaded workbook that has several sheets by importing one of them
+   */
+  async chooseSheet(uploadId: string, sheet: string) {
+    const form = new FormData();
+    form.append("uploadId", uploadId);
+    form.append("sheet", sheet);
+    form.append("final", "true");
+
+    const response = await fetch("/api/upload", { method: "POST", body: form });
+    const data = await response.json().catch(() => null);
+    if (data?.success === false) return data;
+    if (!response.ok || !data) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    return data;
+  },
+
+  async cancelUpload(uploadId: string) {
+    await fetch(`/api/upload?uploadId=${encodeURIComponent(uploadId)}`, { method: "DELETE" });
+  },
+
+  /**
+   * Pass rerun to re-execute an earlier answer's SQL (e.g. with new filters) without generating it again
+   */
+  async processQuery(
+    query: string,
+    datasetId: string,
+    joinDatasetIds?: string[],
+    history?: ConversationTurn[],
+    filters?: QueryFilter[],
+    rerun?: { sql: string; chartType?: "bar" | "line" | "pie" }
+  ) {
+    const response = await fetch("/api/trpc/data.processQuery", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ "json": { csvData, filename } }),
+      body: JSON.stringify({ "json": { query, datasetId, joinDatasetIds, history, filters, rerun } }),
     });
     if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    const data = await response.json();
-    
-    // Handle nested structure like getSampleData
-    if (data.result?.data?.json) {
-      return data.result.data.json;
-    } else if (data.result?.data) {
-      const resultData = data.result.data;
-      if (resultData.json) {
-        return resultData.json;
-      } else {
-        return resultData;
-      }
-    } else if (data.json) {
-      return data.json;
-    } else if (data.success !== undefined) {
-      return data;
-    }
-    
-    throw new Error("Unexpected response format from server");
+    return unwrapResult(await response.json());
   },
 
-  async processQuery(query: string, datasetId: string) {
-    const response = await fetch("/api/trpc/data.processQuery", {
+  /**
+   * Rows of an answer's result from cursor onwards, re-executing its SQL on the server. Omit limit to get
+   * every remaining row
+   */
+  async queryResults(datasetId: string, joinDatasetIds: string[] | undefined, sql: string, cursor: number, limit?: number) {
+    return callQuery("data.queryResults", { datasetId, joinDatasetIds, sql, cursor, limit });
+  },
+
+  /**
+   * Stream a query through data.streamQuery: onEvent receives each stage and partial LLM output,
+   * and the returned promise resolves with the same result processQuery returns (plus chartSpec)
+   */
+  async streamQuery(
+    query: string,
+    datasetId: string,
+    joinDatasetIds: string[] | undefined,
+    history: ConversationTurn[] | undefined,
+    filters: QueryFilter[] | undefined,
+    onEvent: (event: any) => void
+  ) {
+    const response = await fetch("/api/query-stream", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ "json": { query, datasetId } }),
+      body: JSON.stringify({ "json": { query, datasetId, joinDatasetIds, history, filters } }),
     });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `HTTP ${response.status}: ${response.statusText}`);
     }
-    
-    const data = await response.json();
-    
-    // Handle response format
-    if (data?.result?.data) {
-      return data.result.data;
-    } else if (data?.success !== undefined) {
-      return data;
-    } else {
-      throw new Error("Unexpected response format from server");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Server-sent events are separated by a blank line
+      const messages = buffer.split("\n\n");
+      buffer = messages.pop() || "";
+
+      for (const message of messages) {
+        if (!message.startsWith("data: ")) continue;
+        const event = JSON.parse(message.slice("data: ".length));
+
+        if (event.type === "result") return event.result;
+        if (event.type === "error") throw new Error(event.error);
+        onEvent(event);
+      }
+    }
+
+    throw new Error("Query stream ended before a result was received");
+  },
+
+  async listDatasets() {
+    return callQuery("data.listDatasets");
+  },
+
+  async getDataset(datasetId: string) {
+    return callQuery("data.getDataset", { datasetId });
+  },
+
+  async profileDataset(datasetId: string) {
+    return callQuery("data.profileDataset", { datasetId });
+  },
+
+  /**
+   * One page of a stored dataset's rows, filtered and sorted on the server
+   */
+  async getRows(
+    datasetId: string,
+    options: {
+      offset: number;
+      limit: number;
+      sort?: { column: string; direction: "asc" | "desc" }[];
+      filters?: QueryFilter[];
+      columns?: string[];
     }
+  ) {
+    return callQuery("data.getRows", { datasetId, ...options });
+  },
+
+  async getFilterOptions(datasetId: string) {
+    return callQuery("data.getFilterOptions", { datasetId });
+  },
+
+  async updateDataset(datasetId: string, changes: { name?: string; folder?: string }) {
+    return callMutation("data.updateDataset", { datasetId, ...changes });
+  },
+
+  async setColumnType(datasetId: string, column: string, type: "string" | "number" | "date" | "boolean" | null) {
+    return callMutation("data.setColumnType", { datasetId, column, type });
+  },
+
+  async getDataDictionary(datasetId: string) {
+    return callQuery("data.getDataDictionary", { datasetId });
+  },
+
+  /**
+   * Save a column's data dictionary entry, or pass null to remove it
+   */
+  async setColumnDescription(datasetId: string, column: string, entry: ColumnDescription | null) {
+    return callMutation("data.setColumnDescription", { datasetId, column, entry });
+  },
+
+  async deleteDataset(datasetId: string) {
+    return callMutation("data.deleteDataset", { datasetId });
+  },
+
+  async getDashboard() {
+    return callQuery("data.getDashboard");
+  },
+
+  /**
+   * Pin an analysis to the dashboard; the server keeps its SQL, filters and chart settings and re-runs them
+   */
+  async pinToDashboard(tile: Omit<DashboardTile, "id" | "layout" | "pinnedAt">) {
+    return callMutation("data.pinToDashboard", tile);
+  },
+
+  async updateDashboardTile(tileId: string, changes: { title?: string; layout?: TileLayout }) {
+    return callMutation("data.updateDashboardTile", { tileId, ...changes });
+  },
+
+  async reorderDashboard(tileIds: string[]) {
+    return callMutation("data.reorderDashboard", { tileIds });
+  },
+
+  async unpinFromDashboard(tileId: string) {
+    return callMutation("data.unpinFromDashboard", { tileId });
+  },
+
+  /**
+   * Re-execute a tile's SQL against its dataset; resolves with the same result processQuery returns
+   */
+  async runDashboardTile(tileId: string) {
+    return callQuery("data.runDashboardTile", { tileId });
+  },
+
+  /**
+   * Save an analysis as it is now so it can be shared; resolves with the ID its permalink uses
+   */
+  async saveAnalysis(analysis: Omit<SavedAnalysis, "id" | "savedAt">) {
+    return callMutation("data.saveAnalysis", analysis);
+  },
+
+  /**
+   * Open a saved analysis: the saved analysis, its dataset names and the result of running it again
+   */
+  async getSharedAnalysis(analysisId: string): Promise<SharedAnalysisResponse> {
+    return callQuery("data.getSharedAnalysis", { analysisId });
+  },
+
+  /**
+   * Remove cached SQL and charts, for one dataset or (without an ID) for all of them
+   */
+  async clearCache(datasetId?: string) {
+    return callMutation("data.clearCache", { datasetId });
   },
 
-  async generateChart(originalQuery: string, data: any[], schema: any[], chartType?: string) {
+  async generateChart(originalQuery: string, data: any[], schema: any[], chartType?: string, datasetId?: string) {
     console.log("tRPCClient: Generating chart with data length:", data.length, "schema:", schema.length);
     
     const response = await fetch("/api/trpc/data.generateChart", {
@@ -91,7 +358,8 @@ export const tRPCClient = {
           originalQuery, 
           data, 
           schema, 
-          chartType 
+          chartType,
+          datasetId
         } 
       }),
     });
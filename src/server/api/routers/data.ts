@@ -1,182 +1,198 @@
 import { z } from "zod";
+import { observable } from "@trpc/server/observable";
 import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
-import { SAMPLE_GERMANY_DATA, SAMPLE_TREATMENT_COSTS_DATA, inferSchema } from "@/lib/sample-data";
+import { SAMPLE_GERMANY_DATA, SAMPLE_TREATMENT_COSTS_DATA } from "@/lib/sample-data";
+import { profileColumns } from "@/lib/column-profile";
+import { profileDataset } from "@/lib/dataset-profile";
+import { describeColumn, type DataDictionary } from "@/lib/data-dictionary";
 import Papa from "papaparse";
 import fs from "fs/promises";
 import path from "path";
-import OpenAI from "openai";
-import { env } from "@/env";
-
-// Simple in-memory store for datasets (in production, use Redis/Database)
-const datasetStore = new Map<string, any[]>();
-
-// Initialize OpenAI (only if API key is provided)
-const openai = env.OPENAI_API_KEY ? new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-}) : null;
-
-
-
-// Generate dynamic chart code using OpenAI GPT-4 Turbo
-// This function generates React/TypeScript code using Recharts
-async function generateChartCode(
+import { llm, completeWithTimeout, LLM_NOT_CONFIGURED_ERROR } from "@/server/llm/provider";
+import { executeSQL, evictDatabases } from "@/server/sql/engine";
+import { findTimeBucket, fillTimeGaps } from "@/server/sql/time-buckets";
+import { validateSQL } from "@/server/sql/validator";
+import { planQueryOffline, refineQueryOffline, describeSQL, type Measure } from "@/server/sql/planner";
+import { applyFilters, activeFilters, describeFilter } from "@/server/sql/filters";
+import { parseChartSpec, chartSpecSchema, type ChartSpec } from "@/lib/chart-spec";
+import { DASHBOARD_COLUMNS, MAX_TILE_ROWS } from "@/lib/dashboard";
+import { PRIMARY_TABLE, toTableName, detectJoinKeys, type SQLTable, type JoinKey } from "@/server/sql/tables";
+import {
+  saveDataset,
+  getDatasetMeta,
+  loadDatasetRows,
+  updateDatasetMeta,
+  setColumnType,
+  setColumnDescription,
+  listDatasets,
+  deleteDataset,
+} from "@/server/storage/dataset-store";
+import { queryRows, filterOptions } from "@/server/storage/row-query";
+import { listTiles, getTile, addTile, updateTile, reorderTiles, removeTile } from "@/server/storage/dashboard-store";
+import { saveAnalysis, getAnalysis } from "@/server/storage/analysis-store";
+import { cacheKey, hashValue, normalizeQuery, readCache, writeCache, deleteCache, clearCache } from "@/server/storage/generation-cache";
+
+// Known IDs for the bundled sample datasets so they are stored once and shared across sessions
+const SAMPLE_DATASETS = {
+  germany_sample: {
+    id: "sample-germany",
+    name: "Germany Sample Dataset",
+    filename: "case_study_germany_sample.csv",
+  },
+  treatment_costs: {
+    id: "sample-treatment-costs",
+    name: "Germany Treatment Costs Sample",
+    filename: "case_study_germany_treatment_costs_sample.csv",
+  },
+} as const;
+
+// Generate a chart specification for a result using the configured LLM provider.
+// The model describes the chart as JSON, which is validated against the result's fields before it is returned
+async function generateChartSpec(
   originalQuery: string, 
   data: any[], 
   schema: any[], 
-  chartType?: string
+  chartType?: string,
+  dictionary: DataDictionary = {},
+  datasetIds: string[] = [],
+  onToken?: (token: string) => void,
+  signal?: AbortSignal // Cancels the model call, e.g. when the client stops listening
 ): Promise<{
   success: boolean;
-  code?: string;
+  spec?: ChartSpec;
+  cached?: boolean; // Answered from the generation cache without calling the model
   error?: string;
+  code?: "llm_not_configured"; // Set when no provider is configured, so callers can fall back to the standard charts
 }> {
-  if (!openai) {
+  if (!llm) {
     return {
       success: false,
-      error: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables.",
+      error: LLM_NOT_CONFIGURED_ERROR,
+      code: "llm_not_configured",
     };
   }
 
-  // Create data description for the LLM (only first 3 rows to save tokens)
-  const dataDescription = data.slice(0, 3).map((row, i) => 
-    `Row ${i + 1}: ${JSON.stringify(row)}`
-  ).join('\n');
+  const fields = Object.keys(data[0] ?? {});
 
   const schemaDescription = schema.map(col => 
-    `${col.name} (${col.type}): ${col.sample}`
+    `- ${col.name} (${col.type}): ${col.sample}`
   ).join('\n');
 
-  const prompt = `Generate executable JavaScript code for a ${chartType || "chart"} using React.createElement and Recharts.
+  // Meanings and units from the data dictionary, for the fields that come straight from dataset columns
+  const fieldNotes = fields
+    .filter(field => dictionary[field])
+    .map(field => `- ${field}: ${describeColumn(dictionary[field])}`)
+    .join('\n');
+
+  // A spec only names fields, so it can be reused for any result of the same question with the same fields
+  const key = cacheKey("chart", {
+    query: normalizeQuery(originalQuery),
+    fields,
+    schema: hashValue(schema.map(col => [col.name, col.type])),
+    chartType: chartType ?? null,
+    fieldNotes,
+    model: llm.models.chart,
+  });
+  const cached = await readCache<ChartSpec>(key);
+  if (cached) {
+    const cachedSpec = parseChartSpec(cached, fields);
+    if (cachedSpec.success) return { success: true, spec: cachedSpec.spec, cached: true };
+    // A spec that no longer fits the result is generated again rather than kept
+    await deleteCache(key);
+  }
+
+  const prompt = `Describe a ${chartType || "suitable"} chart for the answer to "${originalQuery}" as a JSON chart specification.
 
-Data: ${JSON.stringify(data.slice(0, 3))}
+Result fields:
+${schemaDescription}
 
-REQUIREMENTS:
-- Generate a JavaScript function that returns React.createElement calls
-- Use React.createElement instead of JSX (no < > syntax)
-- Function takes (data, React, Recharts) as parameters
-- Use exact field names from the data
-- Make it directly executable with eval()
-
-AVAILABLE RECHARTS COMPONENTS:
-- BarChart, Bar, LineChart, Line, PieChart, Pie, Cell
-- AreaChart, Area, ScatterChart, Scatter, RadarChart, Radar
-- XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
-- PolarGrid, PolarAngleAxis, PolarRadiusAxis, ComposedChart, ReferenceLine
-
-FOR HEATMAPS: Use ScatterChart with custom styling or BarChart with small bars
-
-EXAMPLE FOR BAR CHART:
-\`\`\`javascript
-function(data, React, Recharts) {
-  const { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } = Recharts;
-  
-  return React.createElement('div', { style: { width: '100%', height: 300 } },
-    React.createElement(ResponsiveContainer, {},
-      React.createElement(BarChart, { data: data },
-        React.createElement(CartesianGrid, { strokeDasharray: '3 3' }),
-        React.createElement(XAxis, { dataKey: 'name' }),
-        React.createElement(YAxis, {}),
-        React.createElement(Tooltip, {}),
-        React.createElement(Legend, {}),
-        React.createElement(Bar, { dataKey: 'value', fill: '#8884d8' })
-      )
-    )
-  );
-}
-\`\`\`
-
-EXAMPLE FOR PIE CHART:
-\`\`\`javascript
-function(data, React, Recharts) {
-  const { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } = Recharts;
-  const colors = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300'];
-  
-  return React.createElement('div', { style: { width: '100%', height: 300 } },
-    React.createElement(ResponsiveContainer, {},
-      React.createElement(PieChart, {},
-        React.createElement(Pie, { 
-          data: data, 
-          dataKey: 'value', 
-          nameKey: 'category',
-          cx: '50%', 
-          cy: '50%', 
-          outerRadius: 80, 
-          fill: '#8884d8' 
-        }, data.map((entry, index) => 
-          React.createElement(Cell, { key: 'cell-' + index, fill: colors[index % colors.length] })
-        )),
-        React.createElement(Tooltip, {})
-      )
-    )
-  );
+First rows: ${JSON.stringify(data.slice(0, 3))}
+${fieldNotes ? `
+Field meanings (use them for the title, axis labels and units):
+${fieldNotes}
+` : ""}
+SPECIFICATION FORMAT:
+{
+  "mark": "bar" | "line" | "area" | "pie" | "scatter",
+  "title": "short chart title",
+  "x": { "field": "<result field>", "label": "axis label" },
+  "y": [{ "field": "<result field>", "label": "series name", "aggregate": "none" | "sum" | "avg" | "min" | "max" | "count", "color": "#8884d8" }],
+  "series": { "field": "<result field>" },
+  "sort": { "by": "x" | "y", "order": "asc" | "desc" },
+  "yAxis": { "label": "value axis title", "scale": "linear" | "log" },
+  "legend": "top" | "bottom" | "left" | "right" | "none",
+  "limit": 20,
+  "stacked": false,
+  "colors": ["#8884d8", "#82ca9d"]
 }
-\`\`\`
 
-Generate executable JavaScript function for ${chartType || "requested"} chart using React.createElement.`;
+REQUIREMENTS:
+- Return ONLY the JSON object, no explanations
+- Every field must be one of the result fields exactly as written: ${fields.join(", ")}
+- Only "mark", "x" and "y" are required; leave out anything you don't need
+- The rows are already aggregated by the query, so use "aggregate": "none" unless several rows share an x value
+- When rows have several numeric fields (e.g. min, max and median per category), add one y entry per field
+- Use "series" to split one measure by a category field (e.g. cost per year for each area); it needs exactly one y entry
+- Pie charts take exactly one y entry and no series
+- Colors are hex codes
+
+EXAMPLE:
+{"mark": "bar", "title": "Average yearly price by therapeutic area", "x": {"field": "therapeutic_area", "label": "Therapeutic area"}, "y": [{"field": "avg_price", "label": "Average price (EUR)"}], "sort": {"by": "y", "order": "desc"}}`;
 
   try {
-    const completionPromise = openai.chat.completions.create({
-      model: "gpt-4-turbo-preview", // Using the latest GPT-4 Turbo for better performance
+    const response = await completeWithTimeout(llm, {
+      task: "chart",
       messages: [
-        { role: "system", content: "You are a React expert that generates executable JavaScript functions using React.createElement and Recharts. You MUST return ONLY the function code that can be executed with eval() - no JSX, no explanations." },
+        { role: "system", content: "You are a data visualization expert that returns only valid JSON chart specifications." },
         { role: "user", content: prompt }
       ],
       temperature: 0.1,
-      max_tokens: 3000, // Token limit for chart generation
-    });
-
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('OpenAI request timeout after 20 seconds')), 20000)
-    );
+      maxTokens: 1000, // Token limit for chart generation
+      signal,
+    }, 20000, onToken);
 
-    const completion = await Promise.race([completionPromise, timeoutPromise]) as any;
-
-    const response = completion.choices[0]?.message?.content;
     if (!response) {
       return {
         success: false,
-        error: "OpenAI returned an empty response. Please try rephrasing your query.",
+        error: `${llm.label} returned an empty response. Please try rephrasing your query.`,
       };
     }
 
-    // Extract JavaScript code from markdown code blocks if present
-    let code = response.trim();
-    if (code.includes('```javascript')) {
-      const codeMatch = code.match(/```javascript\n([\s\S]*?)\n```/);
-      if (codeMatch) {
-        code = codeMatch[1];
-      }
-    } else if (code.includes('```')) {
-      const codeMatch = code.match(/```\n([\s\S]*?)\n```/);
-      if (codeMatch) {
-        code = codeMatch[1];
-      }
+    // Extract JSON from markdown code blocks if present
+    let jsonString = response.trim();
+    if (jsonString.startsWith('```json')) {
+      jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (jsonString.startsWith('```')) {
+      jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
     }
 
-    if (!code || code.trim().length === 0) {
+    const parsed = parseChartSpec(JSON.parse(jsonString), fields);
+    if (!parsed.success) {
       return {
         success: false,
-        error: "Generated response does not contain valid code.",
+        error: `Generated chart specification was rejected: ${parsed.error}`,
       };
     }
 
+    await writeCache(key, "chart", datasetIds, parsed.spec);
     return {
       success: true,
-      code: code.trim(),
+      spec: parsed.spec,
     };
   } catch (error) {
-    console.error("OpenAI chart generation error:", error);
+    console.error(`${llm.label} chart generation error:`, error);
     
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     
     if (errorMessage.includes("timeout")) {
       return {
         success: false,
-        error: "OpenAI request timed out. Please try again with a simpler query.",
+        error: `${llm.label} request timed out. Please try again with a simpler query.`,
       };
     } else if (errorMessage.includes("JSON")) {
       return {
         success: false,
-        error: "OpenAI returned invalid response format. Please try rephrasing your query.",
+        error: `${llm.label} returned invalid response format. Please try rephrasing your query.`,
       };
     } else {
       return {
@@ -187,50 +203,114 @@ Generate executable JavaScript function for ${chartType || "requested"} chart us
   }
 }
 
-// Convert natural language queries to SQL using OpenAI
-async function naturalLanguageToSQL(query: string, schema: any[]): Promise<{
+// Convert natural language queries to SQL using the configured LLM provider
+async function naturalLanguageToSQL(
+  query: string,
+  tables: SQLTable[],
+  joinKeys: JoinKey[],
+  history: ConversationTurn[],
+  onToken?: (token: string) => void,
+  signal?: AbortSignal // Cancels the model call, e.g. when the client stops listening
+): Promise<{
   success: boolean;
   sql?: string;
   aggregationType?: string;
   groupByField?: string;
   aggregateField?: string;
+  measures?: Measure[];
   chartType?: "bar" | "line" | "pie";
+  basedOnTurn?: number;
+  cached?: boolean; // Answered from the generation cache without calling the model
+  cacheKey?: string; // Set on newly generated plans: where to cache the plan once its SQL has validated and run
   error?: string;
 }> {
-  if (!openai) {
-    return {
-      success: false,
-      error: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables.",
-    };
+  // Without a provider, fall back to the rule-based planner on the primary dataset
+  if (!llm) {
+    const previous = history[history.length - 1];
+    const refined = previous ? refineQueryOffline(query, previous, tables[0]) : null;
+    if (refined) {
+      return { ...refined, basedOnTurn: refined.success ? history.length - 1 : undefined };
+    }
+    return planQueryOffline(query, tables[0]);
   }
 
-  // Create schema description for the LLM
-  const schemaDescription = schema.map(col => 
-    `${col.name} (${col.type}): ${col.sample}`
-  ).join('\n');
+  // The same question about the same schema (and the same earlier turns) gets the SQL generated last time
+  const key = cacheKey("sql", {
+    query: normalizeQuery(query),
+    schema: hashValue(tables.map(table => ({
+      name: table.name,
+      columns: table.schema.map(col => [col.name, col.type]),
+      dictionary: table.dictionary ?? {},
+    }))),
+    joinKeys: joinKeys.map(join => [join.leftTable, join.column, join.rightTable, join.rightColumn]),
+    history: history.map(turn => [normalizeQuery(turn.query), turn.sql]),
+    model: llm.models.sql,
+  });
+  const cached = await readCache<Awaited<ReturnType<typeof naturalLanguageToSQL>>>(key);
+  if (cached) {
+    if (validateSQL(cached.sql || "", tables).success) return { ...cached, cached: true };
+    // The allow-list or the schema changed since the SQL was cached, so ask the model again
+    await deleteCache(key);
+  }
+
+  // Create schema description for the LLM (one block per table when datasets are linked)
+  const schemaDescription = tables.map(table => {
+    const columns = table.schema.map(col => {
+      const notes = describeColumn(table.dictionary?.[col.name]);
+      return `${col.name} (${col.type}${col.nullable ? ", has empty values" : ""}): ${col.sample}${notes ? ` -- ${notes}` : ""}`;
+    }).join('\n');
+    return tables.length > 1
+      ? `Table "${table.name}" (${table.label}, ${table.rows.length} rows):\n${columns}`
+      : columns;
+  }).join('\n\n');
+
+  // Explain the data dictionary notes, when any dataset has them
+  const dictionaryDescription = tables.some(table => table.dictionary && Object.keys(table.dictionary).length > 0)
+    ? `\n\nColumn notes after "--" come from the dataset's data dictionary: map the question's words onto columns through their synonyms, compare against listed values exactly as spelled, and never SUM, AVG or otherwise aggregate a column marked "do not aggregate" (COUNT or COUNT(DISTINCT ...) it instead).`
+    : "";
+
+  const joinDescription = joinKeys.length > 0
+    ? `\n\nDetected join keys:\n${joinKeys.map(key =>
+        `- ${key.leftTable}.${key.column} = ${key.rightTable}.${key.rightColumn} (${Math.round(key.matchRatio * 100)}% of values match)`
+      ).join('\n')}`
+    : "";
+
+  // Earlier turns let follow-ups like "now only for Oncology" refine a previous query
+  const historyDescription = history.length > 0
+    ? `\n\nConversation so far (oldest first):\n${history.map((turn, i) =>
+        `[${i + 1}] Question: "${turn.query}"\n    SQL: ${turn.sql}\n    Result: ${turn.rowCount} rows with columns ${turn.columns.join(", ")}${turn.chartType ? ` shown as a ${turn.chartType} chart` : ""}`
+      ).join('\n')}`
+    : "";
 
   const prompt = `You are a SQL query generator for data analysis. Given this dataset schema and a natural language query, generate a SQL SELECT statement.
 
 Dataset Schema:
-${schemaDescription}
+${schemaDescription}${dictionaryDescription}${joinDescription}${historyDescription}
 
 Natural Language Query: "${query}"
 
 Requirements:
 1. Generate a SQL SELECT statement that answers the question
-2. Use table name "dataset"
-3. Use appropriate aggregation (COUNT, SUM, AVG) when needed
+2. Use table name "dataset"${tables.length > 1 ? `; JOIN ${tables.slice(1).map(t => `"${t.name}"`).join(", ")} on the detected join keys when the question needs their columns, and qualify every column with its table name or alias` : ""}
+3. Use appropriate aggregation when needed: COUNT, COUNT(DISTINCT col), SUM, AVG, MIN, MAX, MEDIAN(col), PERCENTILE(col, 0-100), STDDEV(col), STDDEV_POP(col), VARIANCE(col), VAR_POP(col). Select several aggregates side by side when the question asks for several statistics
 4. Group by relevant columns for categorical analysis
 5. Limit results to top 20 if using GROUP BY
 6. Determine appropriate chart type based on query intent
+7. The SQL is executed exactly as written by SQLite, so express every filter, sort and limit in the statement itself
+8. To group a date column by period, select DATE_TRUNC('day'|'week'|'month'|'quarter'|'year', column) AS period with a readable alias, GROUP BY and ORDER BY that alias and don't add a LIMIT; periods without rows are filled in with zeros automatically
+9. Give every aggregate a readable alias (e.g. SUM(cost) AS total_cost) and use single quotes for string literals
+10. Only reference columns listed in the schema; the query is rejected if it reads other tables, modifies data or uses non-standard functions${history.length > 0 ? `
+11. If the question is a follow-up to an earlier turn (e.g. "now only for X", "show that as a pie", "what about Y"), refine that turn's SQL instead of starting over and set basedOnTurn to its number; otherwise set basedOnTurn to null` : ""}
 
 Response format (JSON only, no explanation):
 {
   "sql": "SELECT statement here",
-  "aggregationType": "sum|avg|count",
+  "aggregationType": "sum|avg|count|count_distinct|min|max|median|percentile|stddev|variance",
   "groupByField": "column name or empty string",  
   "aggregateField": "column name or empty string",
-  "chartType": "bar|line|pie"
+  "measures": [{ "aggregation": "one of the aggregation types", "field": "column name or empty string for COUNT(*)", "alias": "result column name" }],
+  "chartType": "bar|line|pie"${history.length > 0 ? `,
+  "basedOnTurn": number or null` : ""}
 }
 
 Chart type rules:
@@ -239,29 +319,22 @@ Chart type rules:
 - "bar" for comparisons and aggregations (default)`;
 
   try {
-    // Add timeout to prevent hanging
-    const completionPromise = openai.chat.completions.create({
-      model: "gpt-4-turbo-preview", // Using GPT-4 Turbo for better SQL generation
+    // Race with timeout (10 seconds) to prevent hanging
+    const response = await completeWithTimeout(llm, {
+      task: "sql",
       messages: [
         { role: "system", content: "You are a SQL expert that returns only valid JSON responses. You excel at generating accurate SQL queries for data analysis and visualization." },
         { role: "user", content: prompt }
       ],
       temperature: 0.1,
-      max_tokens: 800, // Increased token limit for more complex queries
-    });
-
-    // Race with timeout (10 seconds)
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('OpenAI request timeout after 10 seconds')), 10000)
-    );
+      maxTokens: 800, // Increased token limit for more complex queries
+      signal,
+    }, 10000, onToken);
 
-    const completion = await Promise.race([completionPromise, timeoutPromise]) as any;
-
-    const response = completion.choices[0]?.message?.content;
     if (!response) {
       return {
         success: false,
-        error: "OpenAI returned an empty response. Please try rephrasing your query.",
+        error: `${llm.label} returned an empty response. Please try rephrasing your query.`,
       };
     }
 
@@ -274,28 +347,36 @@ Chart type rules:
     }
 
     const parsed = JSON.parse(jsonString);
-    return {
+    const plan = {
       success: true,
       sql: parsed.sql || "SELECT * FROM dataset LIMIT 10",
       aggregationType: parsed.aggregationType || "count",
       groupByField: parsed.groupByField || "",
       aggregateField: parsed.aggregateField || "",
+      measures: Array.isArray(parsed.measures)
+        ? parsed.measures.filter((measure: any) => typeof measure?.aggregation === "string" && typeof measure?.alias === "string")
+        : undefined,
       chartType: parsed.chartType || "bar",
+      // The prompt numbers turns from 1; ignore anything that doesn't point at a real turn
+      basedOnTurn: Number.isInteger(parsed.basedOnTurn) && parsed.basedOnTurn >= 1 && parsed.basedOnTurn <= history.length
+        ? parsed.basedOnTurn - 1
+        : undefined,
     };
+    return { ...plan, cacheKey: key };
   } catch (error) {
-    console.error("OpenAI SQL generation error:", error);
+    console.error(`${llm.label} SQL generation error:`, error);
     
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     
     if (errorMessage.includes("timeout")) {
       return {
         success: false,
-        error: "OpenAI request timed out. Please try again with a simpler query.",
+        error: `${llm.label} request timed out. Please try again with a simpler query.`,
       };
     } else if (errorMessage.includes("JSON")) {
       return {
         success: false,
-        error: "OpenAI returned invalid response format. Please try rephrasing your query.",
+        error: `${llm.label} returned invalid response format. Please try rephrasing your query.`,
       };
     } else {
       return {
@@ -306,150 +387,413 @@ Chart type rules:
   }
 }
 
-// Execute SQL simulation with JavaScript aggregation
-function executeBasicSQL(dataset: any[], queryAnalysis: {
-  aggregationType?: string;
-  groupByField?: string;
-  aggregateField?: string;
-  sql?: string; // Add SQL to extract LIMIT
-}): any[] {
-  const { aggregationType = "count", groupByField = "", aggregateField = "", sql = "" } = queryAnalysis;
-
-  // Extract LIMIT from SQL query
-  const limitMatch = sql.match(/LIMIT\s+(\d+)/i);
-  const limit = limitMatch ? parseInt(limitMatch[1]) : null;
-
-  // If no grouping, return simple aggregation
-  if (!groupByField) {
-    if (aggregationType === "count") {
-      return [{ count: dataset.length }];
-    }
-    if (aggregateField && aggregationType === "sum") {
-      const sum = dataset.reduce((acc, row) => acc + (parseFloat(row[aggregateField]) || 0), 0);
-      return [{ [`total_${aggregateField.toLowerCase()}`]: sum }];
-    }
-    if (aggregateField && aggregationType === "avg") {
-      const sum = dataset.reduce((acc, row) => acc + (parseFloat(row[aggregateField]) || 0), 0);
-      const avg = dataset.length > 0 ? sum / dataset.length : 0;
-      return [{ [`avg_${aggregateField.toLowerCase()}`]: avg }];
+// Persist a bundled sample the first time it is loaded so it shows up alongside uploaded datasets
+async function storeSampleDataset(
+  sample: (typeof SAMPLE_DATASETS)[keyof typeof SAMPLE_DATASETS],
+  data: Record<string, any>[]
+) {
+  const existing = await getDatasetMeta(sample.id);
+  if (existing) return existing;
+
+  return saveDataset({
+    id: sample.id,
+    name: sample.name,
+    filename: sample.filename,
+    source: "sample",
+    rows: data,
+  });
+}
+
+// Progress reported by streamQuery while a query is answered; "token" events carry partial LLM output
+type QueryStage = "schema" | "sql" | "executed" | "explanation" | "chart";
+
+type QueryProgressEvent =
+  | { type: "stage"; stage: QueryStage; message: string; sql?: string; spec?: ChartSpec }
+  | { type: "token"; stage: "sql" | "chart"; text: string };
+
+// A previous question and the shape of its answer, sent back by the client for follow-up questions
+const conversationTurn = z.object({
+  query: z.string(),
+  sql: z.string(),
+  columns: z.array(z.string()),
+  rowCount: z.number(),
+  chartType: z.enum(["bar", "line", "pie"]).optional(),
+});
+
+type ConversationTurn = z.infer<typeof conversationTurn>;
+
+// Filters from the analysis panel, applied to the primary dataset's rows before the query aggregates them
+const queryFilter = z.discriminatedUnion("type", [
+  z.object({ column: z.string(), type: z.literal("category"), values: z.array(z.string()) }),
+  z.object({ column: z.string(), type: z.literal("date"), start: z.string().nullable(), end: z.string().nullable() }),
+  z.object({ column: z.string(), type: z.literal("numeric"), min: z.number().nullable(), max: z.number().nullable() }),
+]);
+
+const queryInput = z.object({
+  query: z.string(),
+  datasetId: z.string(),
+  joinDatasetIds: z.array(z.string()).optional(), // Additional datasets the query may JOIN against
+  history: z.array(conversationTurn).max(10).optional(), // Earlier turns on this dataset, oldest first
+  filters: z.array(queryFilter).optional(),
+  // A previous answer to re-execute (e.g. with new filters) instead of generating SQL again
+  rerun: z.object({
+    sql: z.string(),
+    chartType: z.enum(["bar", "line", "pie"]).optional(),
+  }).optional(),
+});
+
+type QueryStreamEvent =
+  | QueryProgressEvent
+  | { type: "result"; result: Awaited<ReturnType<typeof answerQuery>> & { chartSpec?: ChartSpec } };
+
+// What each aggregation tells the user, for the explanation shown with an answer
+const AGGREGATION_REASONS: Record<string, string> = {
+  sum: "total values",
+  avg: "average values",
+  count: "counting records",
+  count_distinct: "counting distinct values",
+  min: "the smallest values",
+  max: "the largest values",
+  median: "middle values",
+  percentile: "a percentile of the values",
+  stddev: "how widely values vary",
+  stddev_pop: "how widely values vary",
+  variance: "how widely values vary",
+  var_pop: "how widely values vary",
+};
+
+function aggregationLabel(aggregation: string): string {
+  return aggregation.toUpperCase().replace(/_/g, " ");
+}
+
+// Rows shown with an answer; the rest are fetched page by page through queryResults
+const RESULT_PAGE_SIZE = 20;
+// Time series are charted whole, so their first page holds up to this many periods
+const TIME_SERIES_PAGE_SIZE = 1000;
+
+// Load the tables a query runs against. The primary dataset is always the "dataset" table; joined datasets
+// get their own table names, in the order they were linked. Stored schemas carry the user's type overrides,
+// so use them rather than profiling again.
+async function loadQueryTables(
+  datasetId: string,
+  joinDatasetIds: string[] = []
+): Promise<{ success: boolean; tables?: SQLTable[]; error?: string }> {
+  // Get the actual dataset from storage (loaded from disk on first use)
+  const dataset = await loadDatasetRows(datasetId);
+  if (!dataset || dataset.length === 0) {
+    return {
+      success: false,
+      error: "Dataset not found or empty. Please upload a dataset first.",
+    };
+  }
+
+  const meta = await getDatasetMeta(datasetId);
+  const tables: SQLTable[] = [{
+    name: PRIMARY_TABLE,
+    label: meta?.name || datasetId,
+    rows: dataset,
+    schema: meta?.schema ?? profileColumns(dataset),
+    dictionary: meta?.dictionary,
+    datasetId,
+  }];
+
+  for (const joinId of joinDatasetIds) {
+    if (joinId === datasetId) continue;
+
+    const [joinMeta, joinRows] = await Promise.all([getDatasetMeta(joinId), loadDatasetRows(joinId)]);
+    if (!joinMeta || !joinRows || joinRows.length === 0) {
+      return {
+        success: false,
+        error: `Linked dataset "${joinMeta?.name || joinId}" was not found or is empty.`,
+      };
     }
-    return [{ count: dataset.length }];
+
+    tables.push({
+      name: toTableName(joinMeta.name, tables.map(t => t.name)),
+      label: joinMeta.name,
+      rows: joinRows,
+      schema: joinMeta.schema ?? profileColumns(joinRows),
+      dictionary: joinMeta.dictionary,
+      datasetId: joinId,
+    });
   }
 
-  // Group by field and aggregate
-  const groups = new Map<string, { sum: number; count: number; items: any[] }>();
+  return { success: true, tables };
+}
 
-  dataset.forEach(row => {
-    const groupValue = String(row[groupByField] || "Unknown");
-    
-    if (!groups.has(groupValue)) {
-      groups.set(groupValue, { sum: 0, count: 0, items: [] });
+// Results grouped by a DATE_TRUNC period get the empty periods filled in, in time order
+async function runQuery(sql: string, tables: SQLTable[]) {
+  const execution = await executeSQL(sql, tables);
+  const bucket = findTimeBucket(sql);
+  if (!execution.success || !execution.rows || !bucket) {
+    return { ...execution, bucket: null, filledPeriods: 0 };
+  }
+
+  const { rows, filled } = fillTimeGaps(execution.rows, bucket);
+  return { ...execution, rows, bucket, filledPeriods: filled };
+}
+
+// Recent results, so paging through an answer or exporting it doesn't run its query again. Entries expire
+// after a few minutes, and the oldest are dropped once there are too many or they hold too many rows.
+const RESULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_RESULTS = 16;
+const MAX_CACHED_RESULT_ROWS = 500_000;
+
+type CachedResult = {
+  tables: SQLTable[];
+  execution: Awaited<ReturnType<typeof runQuery>>;
+  expiresAt: number;
+};
+
+const resultCache = new Map<string, CachedResult>();
+
+// A result only applies to the rows and schemas it was computed from; a reloaded or retyped dataset misses
+function sameTables(a: SQLTable[], b: SQLTable[]): boolean {
+  return a.length === b.length && a.every((table, i) =>
+    table.name === b[i].name && table.rows === b[i].rows && JSON.stringify(table.schema) === JSON.stringify(b[i].schema)
+  );
+}
+
+// Drop the cached results computed from a dataset, e.g. once it has been deleted
+function evictResults(datasetId: string) {
+  resultCache.forEach((entry, key) => {
+    if (entry.tables.some(table => table.datasetId === datasetId)) resultCache.delete(key);
+  });
+}
+
+// Execute a query, or reuse the result of the same SQL run on the same tables a moment ago
+async function executeQuery(sql: string, tables: SQLTable[]) {
+  const key = JSON.stringify([sql, tables.map(table => [table.name, table.label, table.rows.length])]);
+  const cached = resultCache.get(key);
+  if (cached && cached.expiresAt > Date.now() && sameTables(cached.tables, tables)) {
+    return cached.execution;
+  }
+  resultCache.delete(key);
+
+  const execution = await runQuery(sql, tables);
+  if (!execution.success || !execution.rows) return execution;
+
+  resultCache.set(key, { tables, execution, expiresAt: Date.now() + RESULT_CACHE_TTL_MS });
+
+  const now = Date.now();
+  let total = 0;
+  resultCache.forEach(entry => {
+    total += entry.execution.rows?.length ?? 0;
+  });
+  for (const [cachedKey, entry] of resultCache) {
+    const overLimit = resultCache.size > MAX_CACHED_RESULTS || total > MAX_CACHED_RESULT_ROWS;
+    if (cachedKey === key || (!overLimit && entry.expiresAt > now)) break;
+    resultCache.delete(cachedKey);
+    total -= entry.execution.rows?.length ?? 0;
+  }
+
+  return execution;
+}
+
+// Answer a natural language query end to end, reporting progress through emit (used by streamQuery).
+// Aborting the signal cancels the model call still in progress.
+async function answerQuery(
+  input: z.infer<typeof queryInput>,
+  emit: (event: QueryProgressEvent) => void = () => undefined,
+  signal?: AbortSignal
+) {
+  try {
+    const loaded = await loadQueryTables(input.datasetId, input.joinDatasetIds);
+    if (!loaded.success || !loaded.tables) {
+      return {
+        success: false,
+        error: loaded.error,
+      };
     }
+    const tables = loaded.tables;
+
+    const joinKeys = detectJoinKeys(tables);
+
+    emit({
+      type: "stage",
+      stage: "schema",
+      message: tables.length > 1
+        ? `Prepared ${tables.length} tables with ${joinKeys.length} detected join key${joinKeys.length !== 1 ? "s" : ""}`
+        : `Prepared schema with ${tables[0].schema.length} columns`,
+    });
+
+    // Use the LLM to analyze query, unless an earlier answer is only being re-run
+    const queryAnalysis: Awaited<ReturnType<typeof naturalLanguageToSQL>> = input.rerun
+      ? { success: true, sql: input.rerun.sql, chartType: input.rerun.chartType, ...describeSQL(input.rerun.sql) }
+      : await naturalLanguageToSQL(
+          input.query,
+          tables,
+          joinKeys,
+          input.history ?? [],
+          (text) => emit({ type: "token", stage: "sql", text }),
+          signal
+        );
     
-    const group = groups.get(groupValue)!;
-    group.count += 1;
-    group.items.push(row);
-    
-    if (aggregateField && row[aggregateField]) {
-      const value = parseFloat(row[aggregateField]) || 0;
-      group.sum += value;
+    if (!queryAnalysis.success) {
+      return {
+        success: false,
+        error: queryAnalysis.error,
+        sql: "-- LLM query analysis failed",
+      };
+    }
+
+    // Parse and check the generated SQL against the allow-list before anything is executed
+    const validation = validateSQL(queryAnalysis.sql || "", tables);
+
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `Generated SQL was rejected: ${validation.error?.message}`,
+        sql: queryAnalysis.sql,
+        validationError: validation.error,
+      };
+    }
+
+    // Push the panel's filters into the query as WHERE predicates on the primary dataset
+    const filters = activeFilters(input.filters ?? []);
+    const filtered = applyFilters(queryAnalysis.sql || "", filters, tables[0]);
+    const filteredValidation = filtered.success && filters.length > 0 ? validateSQL(filtered.sql || "", tables) : validation;
+
+    if (!filtered.success || !filteredValidation.success) {
+      return {
+        success: false,
+        error: filtered.error || `Filtered SQL was rejected: ${filteredValidation.error?.message}`,
+        sql: queryAnalysis.sql,
+      };
+    }
+
+    const sql = filtered.sql || "";
+
+    emit({ type: "stage", stage: "sql", message: queryAnalysis.cached ? "Reused the SQL from an identical earlier question" : "Generated SQL", sql });
+
+    // Execute the SQL as-is so the displayed query is exactly what produced the numbers
+    const execution = await executeQuery(sql, tables);
+
+    if (!execution.success || !execution.rows) {
+      return {
+        success: false,
+        error: execution.error,
+        sql,
+      };
+    }
+
+    // Only SQL that validated and ran is cached, so a bad generation is never replayed
+    if (queryAnalysis.cacheKey) {
+      const { cacheKey: key, ...plan } = queryAnalysis;
+      await writeCache(key, "sql", [input.datasetId, ...(input.joinDatasetIds ?? [])], plan);
     }
-  });
 
-  // Generate results
-  const result: any[] = [];
-  groups.forEach((group, key) => {
-    const resultRow: any = {};
-    resultRow[groupByField] = key;
+    const result = execution.rows;
+
+    emit({ type: "stage", stage: "executed", message: `Query returned ${result.length} row${result.length !== 1 ? "s" : ""}` });
+
+    // Determine display type based on result structure and query intent
+    let displayType: "number" | "chart" | "table" = "chart";
     
-    if (aggregationType === "sum" && aggregateField) {
-      resultRow[`total_${aggregateField.toLowerCase()}`] = group.sum;
-    } else if (aggregationType === "avg" && aggregateField) {
-      resultRow[`avg_${aggregateField.toLowerCase()}`] = group.count > 0 ? group.sum / group.count : 0;
+    if (result.length === 1 && Object.values(result[0]).every(value => typeof value === "number" || value === null)) {
+      // One row of aggregated values (e.g. min, max and median) - show as numbers
+      displayType = "number";
+    } else if (input.query.toLowerCase().includes("filter") && 
+               (input.query.toLowerCase().includes("show") || 
+                input.query.toLowerCase().includes("list") || 
+                input.query.toLowerCase().includes("give me all"))) {
+      // Explicit request for filtering/listing results - show as table
+      displayType = "table";
+    } else if (queryAnalysis.groupByField && queryAnalysis.aggregationType) {
+      // Grouped aggregation (top X, comparison, breakdown) - always show as chart
+      displayType = "chart";
+    } else if (result.length > 20) {
+      // Large result set without grouping - show as table
+      displayType = "table";
     } else {
-      resultRow["count"] = group.count;
+      // Default to chart for analytical queries
+      displayType = "chart";
     }
-    
-    result.push(resultRow);
-  });
 
-  // Sort results by value (descending)
-  if (result.length > 0) {
-    const valueKey = Object.keys(result[0]).find(key => key !== groupByField);
-    if (valueKey) {
-      result.sort((a, b) => (b[valueKey] || 0) - (a[valueKey] || 0));
+    // Generate detailed explanations for the analysis
+    const explanations = [];
+    
+    // Skip column type detection - too verbose and not user-friendly
+    
+    const basedOn = queryAnalysis.basedOnTurn !== undefined ? input.history?.[queryAnalysis.basedOnTurn] : undefined;
+    if (basedOn) {
+      explanations.push(`**Follow-up:** Refined the query from your earlier question "${basedOn.query}"`);
     }
-  }
-
-  // Apply LIMIT if specified in SQL
-  return limit ? result.slice(0, limit) : result;
-}
 
-export const dataRouter = createTRPCRouter({
-  // Upload and process CSV data
-  processCSV: publicProcedure
-    .input(z.object({
-      csvData: z.string(),
-      filename: z.string(),
-    }))
-    .mutation(async ({ input }) => {
-      try {
-        
-        // Parse CSV data using Papa Parse
-        const parseResult = Papa.parse(input.csvData, {
-          header: true,
-          skipEmptyLines: true,
-          delimiter: "", // Auto-detect delimiter (handles both comma and semicolon)
-          transformHeader: (header) => header.trim(), // Clean headers
-        });
+    if (filters.length > 0) {
+      explanations.push(`**Filters:** Only rows where ${filters.map(describeFilter).join("; ")} were included before aggregating`);
+    }
 
-        if (parseResult.errors.length > 0) {
-          console.error("CSV parsing errors:", parseResult.errors);
-          return {
-            success: false,
-            error: "Failed to parse CSV file. Please check the format.",
-            details: parseResult.errors[0]?.message || "Unknown parsing error",
-          };
-        }
+    // Explain query processing
+    const measures = (queryAnalysis.measures ?? []).filter(measure => measure.field);
+    if (measures.length > 1) {
+      explanations.push(`**Aggregation Choice:** Computed ${measures.map(measure => `${aggregationLabel(measure.aggregation)} of "${measure.field}"`).join(", ")} side by side because your query asked for several statistics`);
+    } else if (queryAnalysis.aggregationType && queryAnalysis.aggregateField) {
+      explanations.push(`**Aggregation Choice:** Used ${aggregationLabel(queryAnalysis.aggregationType)} on "${queryAnalysis.aggregateField}" because your query requested ${AGGREGATION_REASONS[queryAnalysis.aggregationType] ?? 'counting records'}`);
+    }
+    
+    if (execution.bucket) {
+      const { field, unit } = execution.bucket;
+      explanations.push(`**Time Buckets:** Grouped "${field}" by ${unit} and sorted chronologically${execution.filledPeriods > 0 ? `; ${execution.filledPeriods} ${unit}${execution.filledPeriods !== 1 ? "s" : ""} without records were filled with zeros` : ""}`);
+    } else if (queryAnalysis.groupByField) {
+      explanations.push(`**Grouping Logic:** Grouped results by "${queryAnalysis.groupByField}" to show breakdown across different ${queryAnalysis.groupByField.replace(/_/g, ' ')} values`);
+    }
+    
+    // Explain chart type selection
+    const chartExplanation = queryAnalysis.chartType === 'pie' ? 'pie chart for distribution/percentage view' :
+                            queryAnalysis.chartType === 'line' ? 'line chart for trend/time-series data' :
+                            'bar chart for comparison of values across categories';
+    explanations.push(`**Visualization Choice:** Selected ${chartExplanation} based on query intent and data structure`);
+    
+    // Explain display type logic
+    if (displayType === 'number') {
+      const valueCount = Object.keys(result[0]).length;
+      explanations.push(valueCount > 1
+        ? `**Display Format:** Showing ${valueCount} numbers side by side because query returned one row of aggregated values`
+        : `**Display Format:** Showing single number result because query returned one aggregated value`);
+    } else if (displayType === 'table') {
+      explanations.push(`**Display Format:** Using table view because query appears to be filtering/listing records (${result.length} rows returned)`);
+    } else {
+      explanations.push(`**Display Format:** Using chart visualization because query shows grouped/comparative data (${result.length} categories)`);
+    }
 
-        const data = parseResult.data as Record<string, any>[];
-        
-        if (data.length === 0) {
-          return {
-            success: false,
-            error: "CSV file appears to be empty or has no valid data rows.",
-          };
-        }
+    emit({ type: "stage", stage: "explanation", message: "Explanation ready" });
 
-        // Infer schema from actual data
-        const schema = inferSchema(data);
-        
-        // Get preview data (first 10 rows)
-        const preview = data.slice(0, 10);
+    const pageSize = execution.bucket ? TIME_SERIES_PAGE_SIZE : RESULT_PAGE_SIZE;
 
-        // Generate a unique dataset ID and store the full dataset
-        const datasetId = Math.random().toString(36).substr(2, 9);
-        datasetStore.set(datasetId, data);
+    return {
+      success: true,
+      interpretation: {
+        aggregation: queryAnalysis.aggregationType || "count",
+        groupBy: queryAnalysis.groupByField ? [queryAnalysis.groupByField] : [],
+        measures: queryAnalysis.measures ?? [],
+        filters,
+        chartType: queryAnalysis.chartType || "bar",
+        displayType,
+      },
+      sql,
+      baseSql: queryAnalysis.sql, // Generated SQL before filters, so the client can re-run it with different ones
+      result: result.slice(0, pageSize), // First page only; the rest is fetched with queryResults
+      totalRows: result.length,
+      nextCursor: result.length > pageSize ? pageSize : null, // Offset of the next page, null when complete
+      displayType,
+      explanations: explanations.join('\n\n'), // Add explanations to response
+      basedOnTurn: basedOn ? queryAnalysis.basedOnTurn : undefined, // Index into input.history this result builds on
+    };
 
-        return {
-          success: true,
-          schema,
-          rowCount: data.length,
-          preview,
-          fullData: data.length <= 5000 ? data : undefined, // Include full data for filtering if dataset is reasonable size
-          filename: input.filename,
-          datasetId, // Return the ID so frontend can use it for queries
-        };
-      } catch (error) {
-        console.error("Error processing CSV:", error);
-        return {
-          success: false,
-          error: "An unexpected error occurred while processing the CSV file.",
-          details: error instanceof Error ? error.message : "Unknown error",
-        };
-      }
-    }),
+  } catch (error) {
+    console.error("Query processing error:", error);
+    
+    return {
+      success: false,
+      error: "Failed to process query",
+      details: error instanceof Error ? error.message : "Unknown error",
+      sql: "-- Query processing failed",
+    };
+  }
+}
 
+export const dataRouter = createTRPCRouter({
   // Get sample data
   getSampleData: publicProcedure
     .input(z.object({
@@ -457,10 +801,10 @@ export const dataRouter = createTRPCRouter({
     }))
     .query(async ({ input }) => {
       try {
+        const sample = SAMPLE_DATASETS[input.dataset];
+
         // Try to load from CSV files first
-        const filename = input.dataset === "germany_sample" 
-          ? "case_study_germany_sample.csv"
-          : "case_study_germany_treatment_costs_sample.csv";
+        const filename = sample.filename;
         
         const filePath = path.join(process.cwd(), "data", "samples", filename);
         
@@ -482,16 +826,16 @@ export const dataRouter = createTRPCRouter({
           const data = parseResult.data as Record<string, any>[];
           
           if (data.length > 0) {
-            const schema = inferSchema(data);
-            
-            // Store sample data with a known ID
-            datasetStore.set("sample-germany", data);
+            // Store sample data with a known ID; its stored schema includes any type overrides
+            const meta = await storeSampleDataset(sample, data);
             
             return {
               success: true,
-              data,
-              schema: schema,
-              fullData: data.length <= 5000 ? data : undefined, // Include full data for filtering
+              datasetId: sample.id,
+              name: sample.name,
+              schema: meta.schema,
+              rowCount: meta.rowCount,
+              preview: data.slice(0, 10),
               source: "csv_file",
               filename,
             };
@@ -505,16 +849,16 @@ export const dataRouter = createTRPCRouter({
           ? SAMPLE_GERMANY_DATA 
           : SAMPLE_TREATMENT_COSTS_DATA;
         
-        const schema = inferSchema(data);
-        
         // Store hardcoded sample data with a known ID
-        datasetStore.set("sample-germany", data);
+        const meta = await storeSampleDataset(sample, data);
         
         return {
           success: true,
-          data,
-          schema: schema,
-          fullData: data, // Hardcoded data is small, always include for filtering
+          datasetId: sample.id,
+          name: sample.name,
+          schema: meta.schema,
+          rowCount: meta.rowCount,
+          preview: data.slice(0, 10),
           source: "hardcoded",
         };
       } catch (error) {
@@ -527,147 +871,757 @@ export const dataRouter = createTRPCRouter({
       }
     }),
 
-  // Process natural language query using OpenAI only
-  processQuery: publicProcedure
+  // List every stored dataset (uploads and samples), newest first
+  listDatasets: publicProcedure
+    .query(async () => {
+      try {
+        const datasets = await listDatasets();
+        return {
+          success: true,
+          datasets,
+        };
+      } catch (error) {
+        console.error("Error listing datasets:", error);
+        return {
+          success: false,
+          error: "Failed to list datasets",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Load a stored dataset by ID: its schema, row count and first rows
+  getDataset: publicProcedure
     .input(z.object({
-      query: z.string(),
       datasetId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .query(async ({ input }) => {
       try {
-        // Get the actual dataset from our store
-        const dataset = datasetStore.get(input.datasetId);
-        if (!dataset || dataset.length === 0) {
+        const meta = await getDatasetMeta(input.datasetId);
+        const data = meta ? await loadDatasetRows(input.datasetId) : null;
+
+        if (!meta || !data) {
           return {
             success: false,
-            error: "Dataset not found or empty. Please upload a dataset first.",
+            error: "Dataset not found. It may have been deleted.",
           };
         }
 
-        // Get dataset schema for OpenAI with detailed type detection explanations
-        const firstRow = dataset[0];
-        const schema = Object.keys(firstRow).map(col => {
-          const value = firstRow[col];
-          let type: string;
-          let explanation: string;
-          
-          if (typeof value === 'number') {
-            type = 'number';
-            explanation = `Detected as numeric (value: ${value})`;
-          } else if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
-            type = 'date';
-            explanation = `Detected as date (pattern: YYYY-MM-DD, value: "${value}")`;
-          } else if (typeof value === 'string' && /^\d+\.?\d*$/.test(value)) {
-            type = 'number';
-            explanation = `Detected as numeric string, will be parsed as number (value: "${value}")`;
-          } else {
-            type = 'string';
-            explanation = `Detected as text/categorical (value: "${String(value).substring(0, 30)}${String(value).length > 30 ? '...' : ''}")`;
-          }
-          
-          return {
-            name: col,
-            type,
-            sample: String(value || '').substring(0, 50),
-            explanation
-          };
-        });
+        return {
+          success: true,
+          datasetId: meta.id,
+          name: meta.name,
+          filename: meta.filename,
+          source: meta.source,
+          uploadedAt: meta.uploadedAt,
+          schema: meta.schema,
+          rowCount: meta.rowCount,
+          preview: data.slice(0, 10),
+        };
+      } catch (error) {
+        console.error("Error loading dataset:", error);
+        return {
+          success: false,
+          error: "Failed to load dataset",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
 
-        // Use OpenAI to analyze query
-        const queryAnalysis = await naturalLanguageToSQL(input.query, schema);
-        
-        if (!queryAnalysis.success) {
+  // Column statistics and data-quality flags over the full stored dataset
+  profileDataset: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const meta = await getDatasetMeta(input.datasetId);
+        const data = meta ? await loadDatasetRows(input.datasetId) : null;
+
+        if (!meta || !data) {
           return {
             success: false,
-            error: queryAnalysis.error,
-            sql: "-- OpenAI query analysis failed",
+            error: "Dataset not found. It may have been deleted.",
           };
         }
 
-        // For now, we'll simulate SQL execution with basic JavaScript aggregation
-        // In a real implementation, you might want to use a SQL engine like sqlite
-        const result = executeBasicSQL(dataset, { ...queryAnalysis, sql: queryAnalysis.sql });
-
-        // Determine display type based on result structure and query intent
-        let displayType: "number" | "chart" | "table" = "chart";
-        
-        if (result.length === 1 && Object.keys(result[0]).length === 1) {
-          // Single aggregated value - show as number
-          displayType = "number";
-        } else if (input.query.toLowerCase().includes("filter") && 
-                   (input.query.toLowerCase().includes("show") || 
-                    input.query.toLowerCase().includes("list") || 
-                    input.query.toLowerCase().includes("give me all"))) {
-          // Explicit request for filtering/listing results - show as table
-          displayType = "table";
-        } else if (queryAnalysis.groupByField && queryAnalysis.aggregationType) {
-          // Grouped aggregation (top X, comparison, breakdown) - always show as chart
-          displayType = "chart";
-        } else if (result.length > 20) {
-          // Large result set without grouping - show as table
-          displayType = "table";
-        } else {
-          // Default to chart for analytical queries
-          displayType = "chart";
-        }
-
-        // Generate detailed explanations for the analysis
-        const explanations = [];
-        
-        // Skip column type detection - too verbose and not user-friendly
-        
-        // Explain query processing
-        if (queryAnalysis.aggregationType && queryAnalysis.aggregateField) {
-          explanations.push(`**Aggregation Choice:** Used ${queryAnalysis.aggregationType.toUpperCase()} on "${queryAnalysis.aggregateField}" because your query requested ${queryAnalysis.aggregationType === 'sum' ? 'total values' : queryAnalysis.aggregationType === 'avg' ? 'average values' : 'counting records'}`);
-        }
-        
-        if (queryAnalysis.groupByField) {
-          explanations.push(`**Grouping Logic:** Grouped results by "${queryAnalysis.groupByField}" to show breakdown across different ${queryAnalysis.groupByField.replace(/_/g, ' ')} values`);
-        }
-        
-        // Explain chart type selection
-        const chartExplanation = queryAnalysis.chartType === 'pie' ? 'pie chart for distribution/percentage view' :
-                                queryAnalysis.chartType === 'line' ? 'line chart for trend/time-series data' :
-                                'bar chart for comparison of values across categories';
-        explanations.push(`**Visualization Choice:** Selected ${chartExplanation} based on query intent and data structure`);
-        
-        // Explain display type logic
-        if (displayType === 'number') {
-          explanations.push(`**Display Format:** Showing single number result because query returned one aggregated value`);
-        } else if (displayType === 'table') {
-          explanations.push(`**Display Format:** Using table view because query appears to be filtering/listing records (${result.length} rows returned)`);
-        } else {
-          explanations.push(`**Display Format:** Using chart visualization because query shows grouped/comparative data (${result.length} categories)`);
-        }
-
         return {
           success: true,
-          interpretation: {
-            aggregation: queryAnalysis.aggregationType || "count",
-            groupBy: queryAnalysis.groupByField ? [queryAnalysis.groupByField] : [],
-            filters: [],
-            chartType: queryAnalysis.chartType || "bar",
-            displayType,
-          },
-          sql: queryAnalysis.sql,
-          result: result.slice(0, 20), // Limit results for performance
-          displayType,
-          explanations: explanations.join('\n\n'), // Add explanations to response
+          profile: profileDataset(data, meta.schema),
         };
-
       } catch (error) {
-        console.error("Query processing error:", error);
-        
+        console.error("Error profiling dataset:", error);
+        return {
+          success: false,
+          error: "Failed to profile dataset",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // One page of a stored dataset's rows, filtered and sorted on the server, for browsing datasets of any size
+  getRows: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+      offset: z.number().int().min(0).default(0),
+      limit: z.number().int().min(1).max(500).default(100),
+      sort: z.array(z.object({
+        column: z.string(),
+        direction: z.enum(["asc", "desc"]),
+      })).max(3).optional(),
+      filters: z.array(queryFilter).optional(),
+      columns: z.array(z.string()).optional(), // Only return these columns
+    }))
+    .query(async ({ input }) => {
+      try {
+        const meta = await getDatasetMeta(input.datasetId);
+        const data = meta ? await loadDatasetRows(input.datasetId) : null;
+
+        if (!meta || !data) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        const result = queryRows(meta.id, data, meta.schema, input);
+        if (!result.success || !result.page) {
+          return {
+            success: false,
+            error: result.error || "Failed to load rows",
+          };
+        }
+
+        return {
+          success: true,
+          ...result.page,
+          rowCount: data.length,
+        };
+      } catch (error) {
+        console.error("Error loading rows:", error);
+        return {
+          success: false,
+          error: "Failed to load rows",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // The columns the analysis panel can filter by, with their values or ranges over the full dataset
+  getFilterOptions: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const meta = await getDatasetMeta(input.datasetId);
+        const data = meta ? await loadDatasetRows(input.datasetId) : null;
+
+        if (!meta || !data) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        return {
+          success: true,
+          options: filterOptions(data, meta.schema),
+        };
+      } catch (error) {
+        console.error("Error loading filter options:", error);
+        return {
+          success: false,
+          error: "Failed to load filter options",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Rename a stored dataset or move it into a folder (an empty folder name ungroups it)
+  updateDataset: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+      name: z.string().trim().min(1).max(200).optional(),
+      folder: z.string().trim().max(100).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const meta = await updateDatasetMeta(input.datasetId, {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.folder !== undefined && { folder: input.folder || undefined }),
+        });
+
+        if (!meta) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        return {
+          success: true,
+          dataset: meta,
+        };
+      } catch (error) {
+        console.error("Error updating dataset:", error);
+        return {
+          success: false,
+          error: "Failed to update dataset",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Override the inferred type of a column (null goes back to the inferred type); used by queries and filters
+  setColumnType: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+      column: z.string(),
+      type: z.enum(["string", "number", "date", "boolean"]).nullable(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const current = await getDatasetMeta(input.datasetId);
+        if (current && !current.schema.some(col => col.name === input.column)) {
+          return {
+            success: false,
+            error: `Column "${input.column}" does not exist in this dataset.`,
+          };
+        }
+
+        const meta = current ? await setColumnType(input.datasetId, input.column, input.type) : null;
+        if (!meta) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        return {
+          success: true,
+          schema: meta.schema,
+        };
+      } catch (error) {
+        console.error("Error setting column type:", error);
+        return {
+          success: false,
+          error: "Failed to update column type",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // The dataset's data dictionary: descriptions, units, synonyms, allowed values and "do not aggregate" flags
+  getDataDictionary: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const meta = await getDatasetMeta(input.datasetId);
+        if (!meta) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        return {
+          success: true,
+          dictionary: meta.dictionary ?? {},
+        };
+      } catch (error) {
+        console.error("Error loading data dictionary:", error);
+        return {
+          success: false,
+          error: "Failed to load data dictionary",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Describe a column in the data dictionary; null (or an empty entry) removes the description
+  setColumnDescription: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+      column: z.string(),
+      entry: z.object({
+        description: z.string().max(500).optional(),
+        unit: z.string().max(50).optional(),
+        synonyms: z.array(z.string().max(100)).max(20).optional(),
+        allowedValues: z.array(z.string().max(200)).max(100).optional(),
+        doNotAggregate: z.boolean().optional(),
+      }).nullable(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const current = await getDatasetMeta(input.datasetId);
+        if (current && !current.schema.some(col => col.name === input.column)) {
+          return {
+            success: false,
+            error: `Column "${input.column}" does not exist in this dataset.`,
+          };
+        }
+
+        const meta = current ? await setColumnDescription(input.datasetId, input.column, input.entry) : null;
+        if (!meta) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have been deleted.",
+          };
+        }
+
+        return {
+          success: true,
+          dictionary: meta.dictionary ?? {},
+        };
+      } catch (error) {
+        console.error("Error updating data dictionary:", error);
+        return {
+          success: false,
+          error: "Failed to update data dictionary",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Remove a stored dataset from disk
+  deleteDataset: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const deleted = await deleteDataset(input.datasetId);
+        if (!deleted) {
+          return {
+            success: false,
+            error: "Dataset not found. It may have already been deleted.",
+          };
+        }
+        await clearCache(input.datasetId);
+        // Nothing computed from its rows may be served after it is gone
+        evictDatabases(input.datasetId);
+        evictResults(input.datasetId);
+
+        return {
+          success: true,
+          datasetId: input.datasetId,
+        };
+      } catch (error) {
+        console.error("Error deleting dataset:", error);
+        return {
+          success: false,
+          error: "Failed to delete dataset",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Forget cached SQL and charts, for one dataset or for all of them, so questions go to the model again
+  clearCache: publicProcedure
+    .input(z.object({
+      datasetId: z.string().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const removed = await clearCache(input.datasetId);
+        return {
+          success: true,
+          removed,
+        };
+      } catch (error) {
+        console.error("Error clearing generation cache:", error);
+        return {
+          success: false,
+          error: "Failed to clear cached answers",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Process natural language query using the configured LLM provider
+  processQuery: publicProcedure
+    .input(queryInput)
+    .mutation(async ({ input }) => {
+      return answerQuery(input);
+    }),
+
+  // Further rows of an answer's result, from the cursor processQuery returned. Without a limit every remaining
+  // row is returned, which is how exports get the full result set. Pages of a recent answer come from its
+  // cached result rather than running the query again.
+  queryResults: publicProcedure
+    .input(z.object({
+      datasetId: z.string(),
+      joinDatasetIds: z.array(z.string()).optional(), // Same datasets, in the same order, as the original query
+      sql: z.string(), // The executed SQL processQuery returned, with filters already applied
+      cursor: z.number().int().min(0).default(0),
+      limit: z.number().int().min(1).max(1000).optional(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const loaded = await loadQueryTables(input.datasetId, input.joinDatasetIds);
+        if (!loaded.success || !loaded.tables) {
+          return {
+            success: false,
+            error: loaded.error,
+          };
+        }
+
+        // The SQL comes back from the client, so it is checked against the allow-list again
+        const validation = validateSQL(input.sql, loaded.tables);
+        if (!validation.success) {
+          return {
+            success: false,
+            error: `SQL was rejected: ${validation.error?.message}`,
+          };
+        }
+
+        const execution = await executeQuery(input.sql, loaded.tables);
+        if (!execution.success || !execution.rows) {
+          return {
+            success: false,
+            error: execution.error,
+          };
+        }
+
+        const end = input.limit === undefined ? execution.rows.length : input.cursor + input.limit;
+        return {
+          success: true,
+          rows: execution.rows.slice(input.cursor, end),
+          totalRows: execution.rows.length,
+          nextCursor: end < execution.rows.length ? end : null,
+        };
+      } catch (error) {
+        console.error("Error loading query results:", error);
+        return {
+          success: false,
+          error: "Failed to load query results",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Same as processQuery, but streams progress stages and partial LLM output, then the chart specification for chart results.
+  // Served over server-sent events by /api/query-stream since the HTTP adapter can't carry subscriptions.
+  streamQuery: publicProcedure
+    .input(queryInput)
+    .subscription(({ input }) => observable<QueryStreamEvent>((emit) => {
+      let cancelled = false;
+      // Unsubscribing aborts the model call in progress, so a closed stream doesn't keep using provider tokens
+      const abort = new AbortController();
+      const send = (event: QueryStreamEvent) => {
+        if (!cancelled) emit.next(event);
+      };
+
+      (async () => {
+        const result = await answerQuery(input, send, abort.signal);
+        let chartSpec: ChartSpec | undefined;
+
+        // Generate the chart up front so the client doesn't need a second round trip
+        if (llm && !cancelled && result.success && result.displayType === "chart" && result.result.length > 0) {
+          const chart = await generateChartSpec(
+            input.query,
+            result.result,
+            profileColumns(result.result),
+            result.interpretation.chartType,
+            (await getDatasetMeta(input.datasetId))?.dictionary,
+            [input.datasetId, ...(input.joinDatasetIds ?? [])],
+            (text) => send({ type: "token", stage: "chart", text }),
+            abort.signal
+          );
+          if (chart.success) {
+            chartSpec = chart.spec;
+            send({ type: "stage", stage: "chart", message: chart.cached ? "Reused the chart from an identical earlier question" : "Chart ready", spec: chart.spec });
+          }
+        }
+
+        send({ type: "result", result: { ...result, chartSpec } });
+        if (!cancelled) emit.complete();
+      })().catch((error) => {
+        if (!cancelled) emit.error(error);
+      });
+
+      return () => {
+        cancelled = true;
+        abort.abort();
+      };
+    })),
+
+  // Tiles pinned to the dashboard, in grid order
+  getDashboard: publicProcedure
+    .query(async () => {
+      try {
+        return {
+          success: true,
+          tiles: await listTiles(),
+        };
+      } catch (error) {
+        console.error("Error loading dashboard:", error);
+        return {
+          success: false,
+          error: "Failed to load dashboard",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Pin an analysis to the dashboard: its question, SQL, filters and chart settings, not its rows
+  pinToDashboard: publicProcedure
+    .input(z.object({
+      title: z.string().min(1).max(200),
+      query: z.string(),
+      datasetId: z.string(),
+      joinDatasetIds: z.array(z.string()).optional(),
+      sql: z.string(),
+      filters: z.array(queryFilter).optional(),
+      displayType: z.enum(["number", "chart", "table"]),
+      chartType: z.enum(["bar", "line", "pie"]).optional(),
+      chartSpec: chartSpecSchema.optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const tables = await loadQueryTables(input.datasetId, input.joinDatasetIds);
+        if (!tables.success || !tables.tables) {
+          return {
+            success: false,
+            error: tables.error,
+          };
+        }
+
+        // Only SQL that would run is worth pinning
+        const validation = validateSQL(input.sql, tables.tables);
+        if (!validation.success) {
+          return {
+            success: false,
+            error: `SQL was rejected: ${validation.error?.message}`,
+          };
+        }
+
+        return {
+          success: true,
+          tile: await addTile(input),
+        };
+      } catch (error) {
+        console.error("Error pinning analysis:", error);
+        return {
+          success: false,
+          error: "Failed to pin analysis to the dashboard",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Save an analysis as it is now so it can be shared; answers are only saved when they are first shared, or
+  // shared again after their filters or chart were changed
+  saveAnalysis: publicProcedure
+    .input(z.object({
+      query: z.string(),
+      datasetId: z.string(),
+      joinDatasetIds: z.array(z.string()).optional(),
+      sql: z.string(),
+      filters: z.array(queryFilter).optional(),
+      displayType: z.enum(["number", "chart", "table"]),
+      chartType: z.enum(["bar", "line", "pie"]).optional(),
+      chartSpec: chartSpecSchema.optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const tables = await loadQueryTables(input.datasetId, input.joinDatasetIds);
+        if (!tables.success || !tables.tables) {
+          return {
+            success: false,
+            error: tables.error,
+          };
+        }
+
+        const validation = validateSQL(input.sql, tables.tables);
+        if (!validation.success) {
+          return {
+            success: false,
+            error: `SQL was rejected: ${validation.error?.message}`,
+          };
+        }
+
+        const analysis = await saveAnalysis(input);
+        return {
+          success: true,
+          analysisId: analysis.id,
+        };
+      } catch (error) {
+        console.error("Error saving analysis:", error);
+        return {
+          success: false,
+          error: "Failed to save analysis",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Open a saved analysis from its permalink: the saved question, SQL, filters and chart, re-executed against
+  // the current rows of its datasets
+  getSharedAnalysis: publicProcedure
+    .input(z.object({
+      analysisId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const analysis = await getAnalysis(input.analysisId);
+        if (!analysis) {
+          return {
+            success: false,
+            error: "Analysis not found. The link may be mistyped.",
+          };
+        }
+
+        const result = await answerQuery({
+          query: analysis.query,
+          datasetId: analysis.datasetId,
+          joinDatasetIds: analysis.joinDatasetIds,
+          filters: analysis.filters,
+          rerun: { sql: analysis.sql, chartType: analysis.chartType },
+        });
+        if (!result.success) return result;
+
+        // Datasets are shown under their current names, in case they were renamed since
+        const datasetName = async (id: string) => (await getDatasetMeta(id))?.name ?? id;
+        return {
+          ...result,
+          analysis,
+          datasetName: await datasetName(analysis.datasetId),
+          linkedDatasets: await Promise.all(
+            (analysis.joinDatasetIds ?? []).map(async id => ({ id, name: await datasetName(id) }))
+          ),
+        };
+      } catch (error) {
+        console.error("Error opening shared analysis:", error);
+        return {
+          success: false,
+          error: "Failed to open shared analysis",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Rename or resize a tile
+  updateDashboardTile: publicProcedure
+    .input(z.object({
+      tileId: z.string(),
+      title: z.string().min(1).max(200).optional(),
+      layout: z.object({
+        columns: z.number().int().min(1).max(DASHBOARD_COLUMNS),
+        rows: z.number().int().min(1).max(MAX_TILE_ROWS),
+      }).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const tile = await updateTile(input.tileId, {
+          ...(input.title !== undefined && { title: input.title }),
+          ...(input.layout !== undefined && { layout: input.layout }),
+        });
+        if (!tile) {
+          return {
+            success: false,
+            error: "Tile not found. It may have been removed.",
+          };
+        }
+
+        return {
+          success: true,
+          tile,
+        };
+      } catch (error) {
+        console.error("Error updating dashboard tile:", error);
+        return {
+          success: false,
+          error: "Failed to update tile",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  reorderDashboard: publicProcedure
+    .input(z.object({
+      tileIds: z.array(z.string()),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return {
+          success: true,
+          tiles: await reorderTiles(input.tileIds),
+        };
+      } catch (error) {
+        console.error("Error reordering dashboard:", error);
+        return {
+          success: false,
+          error: "Failed to reorder tiles",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  unpinFromDashboard: publicProcedure
+    .input(z.object({
+      tileId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const removed = await removeTile(input.tileId);
+        if (!removed) {
+          return {
+            success: false,
+            error: "Tile not found. It may have already been removed.",
+          };
+        }
+
+        return {
+          success: true,
+          tileId: input.tileId,
+        };
+      } catch (error) {
+        console.error("Error removing dashboard tile:", error);
+        return {
+          success: false,
+          error: "Failed to remove tile",
+          details: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }),
+
+  // Answer a tile's question again against the current rows of its dataset, with its filters applied
+  runDashboardTile: publicProcedure
+    .input(z.object({
+      tileId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const tile = await getTile(input.tileId);
+        if (!tile) {
+          return {
+            success: false,
+            error: "Tile not found. It may have been removed.",
+          };
+        }
+
+        return answerQuery({
+          query: tile.query,
+          datasetId: tile.datasetId,
+          joinDatasetIds: tile.joinDatasetIds,
+          filters: tile.filters,
+          rerun: { sql: tile.sql, chartType: tile.chartType },
+        });
+      } catch (error) {
+        console.error("Error running dashboard tile:", error);
         return {
           success: false,
-          error: "Failed to process query",
+          error: "Failed to run tile",
           details: error instanceof Error ? error.message : "Unknown error",
-          sql: "-- Query processing failed",
         };
       }
     }),
 
-  // Generate dynamic chart HTML using OpenAI
+  // Generate a chart specification for a result using the configured LLM provider
   generateChart: publicProcedure
     .input(z.object({
       originalQuery: z.string(),
@@ -678,26 +1632,31 @@ export const dataRouter = createTRPCRouter({
         sample: z.string(),
       })),
       chartType: z.string().optional(),
+      datasetId: z.string().optional(), // Dataset whose data dictionary describes the fields
     }))
     .mutation(async ({ input }) => {
       try {
-        const result = await generateChartCode(
+        const meta = input.datasetId ? await getDatasetMeta(input.datasetId) : null;
+        const result = await generateChartSpec(
           input.originalQuery,
           input.data,
           input.schema,
-          input.chartType
+          input.chartType,
+          meta?.dictionary,
+          input.datasetId ? [input.datasetId] : []
         );
 
         if (!result.success) {
           return {
             success: false,
             error: result.error,
+            code: result.code,
           };
         }
 
         return {
           success: true,
-          code: result.code,
+          spec: result.spec,
         };
       } catch (error) {
         console.error("Chart generation error:", error);
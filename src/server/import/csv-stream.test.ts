@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createCSVStreamParser } from "@/server/import/csv-stream";
+
+// Feed the pieces one at a time, the way an upload arrives, and collect every row
+function parseInPieces(pieces: string[], delimiter?: string) {
+  const parser = createCSVStreamParser(delimiter);
+  const rows = pieces.flatMap(piece => parser.push(piece));
+  return { rows: [...rows, ...parser.end()], parser };
+}
+
+describe("createCSVStreamParser", () => {
+  it("parses rows split at arbitrary points", () => {
+    const { rows, parser } = parseInPieces(["brand,pri", "ce\nAlpha,1", "0\nBeta,20\n", "Gamma,30"]);
+    expect(parser.header).toEqual(["brand", "price"]);
+    expect(rows).toEqual([
+      { brand: "Alpha", price: "10" },
+      { brand: "Beta", price: "20" },
+      { brand: "Gamma", price: "30" },
+    ]);
+  });
+
+  it("keeps newlines inside quoted fields, even when the chunk ends inside the quotes", () => {
+    const { rows } = parseInPieces(['brand,notes\nAlpha,"first line\n', 'second line"\nBeta,plain\n']);
+    expect(rows).toEqual([
+      { brand: "Alpha", notes: "first line\nsecond line" },
+      { brand: "Beta", notes: "plain" },
+    ]);
+  });
+
+  it('unescapes a "" split across two chunks', () => {
+    const { rows, parser } = parseInPieces(['brand,quote\nAlpha,"say "', '"hi"" now"\nBeta,x\n']);
+    expect(rows).toEqual([
+      { brand: "Alpha", quote: 'say "hi" now' },
+      { brand: "Beta", quote: "x" },
+    ]);
+    expect(parser.error).toBeNull();
+  });
+
+  it("strips a byte order mark from the first header", () => {
+    const { rows, parser } = parseInPieces(["\uFEFFbrand;price\n", "Alpha;10\n"]);
+    expect(parser.header).toEqual(["brand", "price"]);
+    expect(rows).toEqual([{ brand: "Alpha", price: "10" }]);
+  });
+
+  it("detects the delimiter from the first piece and keeps it", () => {
+    const { rows } = parseInPieces(["a\tb\n1\t2\n", "3\t4"]);
+    expect(rows).toEqual([{ a: "1", b: "2" }, { a: "3", b: "4" }]);
+  });
+
+  it("fills missing trailing fields with empty strings", () => {
+    const { rows } = parseInPieces(["a,b,c\n1,2\n"]);
+    expect(rows).toEqual([{ a: "1", b: "2", c: "" }]);
+  });
+
+  it("reports an unterminated quote", () => {
+    const { parser } = parseInPieces(['a,b\n1,"open\n']);
+    expect(parser.error).not.toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import Papa from "papaparse";
+
+// Incremental CSV/TSV parser for uploads that arrive in pieces.
+// Text is only parsed up to the last line break outside a quoted field; the rest is carried over to the next
+// piece, so records split across chunks (including quoted values containing newlines) are parsed whole.
+
+// Shared by every format that can be parsed as it arrives
+export type RowStreamParser = {
+  push: (text: string) => Record<string, any>[];
+  end: () => Record<string, any>[];
+  readonly error: string | null;
+};
+
+export type CSVStreamParser = RowStreamParser & {
+  readonly header: string[] | null;
+  readonly error: string | null; // First malformed-quote error; an undetectable delimiter just falls back to commas
+};
+
+// Position just after the last newline that isn't inside quotes, or -1 if there is none
+function lastCompleteLine(text: string): number {
+  let inQuotes = false;
+  let cut = -1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      // Escaped quotes ("") flip the state twice, so they cancel out
+      inQuotes = !inQuotes;
+    } else if (char === "\n" && !inQuotes) {
+      cut = i + 1;
+    }
+  }
+  return cut;
+}
+
+// Leave the delimiter empty to detect it from the first piece (comma, semicolon, tab or pipe)
+export function createCSVStreamParser(fixedDelimiter = ""): CSVStreamParser {
+  let carry = "";
+  let header: string[] | null = null;
+  let delimiter = fixedDelimiter;
+  let error: string | null = null;
+
+  const parse = (text: string): Record<string, any>[] => {
+    if (!text.trim()) return [];
+
+    const result = Papa.parse<string[]>(text, {
+      header: false,
+      skipEmptyLines: true,
+      delimiter, // Empty until the first piece has been parsed, which auto-detects it
+    });
+    if (!delimiter) delimiter = result.meta.delimiter;
+
+    const quoteError = result.errors.find(e => e.type === "Quotes");
+    if (quoteError && !error) error = quoteError.message;
+
+    let records = result.data;
+    if (!header) {
+      header = (records[0] || []).map(name => name.trim());
+      records = records.slice(1);
+    }
+
+    const columns = header;
+    return records.map(record => {
+      const row: Record<string, any> = {};
+      columns.forEach((name, i) => {
+        row[name] = record[i] ?? "";
+      });
+      return row;
+    });
+  };
+
+  return {
+    push(text: string) {
+      carry += text;
+      const cut = lastCompleteLine(carry);
+      if (cut === -1) return [];
+
+      const complete = carry.slice(0, cut);
+      carry = carry.slice(cut);
+      return parse(complete);
+    },
+
+    end() {
+      const rest = carry;
+      carry = "";
+      return parse(rest);
+    },
+
+    get header() {
+      return header;
+    },
+
+    get error() {
+      return error;
+    },
+  };
+}
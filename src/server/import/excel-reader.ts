@@ -0,0 +1,46 @@
+import * as XLSX from "xlsx";
+
+import { toCellValue } from "@/server/import/values";
+
+// Excel workbooks (.xlsx and legacy .xls). The first row of a sheet is its header; each sheet can be
+// imported as its own dataset, so the workbook lists its sheets before one is read.
+
+export type SheetSummary = {
+  name: string;
+  rowCount: number; // Approximate, from the sheet's used range
+};
+
+export type Workbook = {
+  sheets: SheetSummary[];
+  readSheet: (name: string) => Record<string, any>[] | null;
+};
+
+export function openWorkbook(data: Buffer): Workbook {
+  const workbook = XLSX.read(data, { type: "buffer", cellDates: true, dense: true });
+
+  const sheets = workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.["!ref"];
+    const range = ref ? XLSX.utils.decode_range(ref) : null;
+    return { name, rowCount: range ? Math.max(range.e.r - range.s.r, 0) : 0 };
+  });
+
+  return {
+    sheets,
+
+    readSheet(name: string) {
+      const sheet = workbook.Sheets[name];
+      if (!sheet) return null;
+
+      const [header = [], ...records] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: false });
+      const columns = header.map((name, i) => String(toCellValue(name)).trim() || `Column ${i + 1}`);
+
+      return records.map(record => {
+        const row: Record<string, any> = {};
+        columns.forEach((name, i) => {
+          row[name] = toCellValue(record[i]);
+        });
+        return row;
+      });
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import fs from "fs/promises";
+
+import { formatFromFilename, type ImportFormat } from "@/lib/import-formats";
+import { createCSVStreamParser, type RowStreamParser } from "@/server/import/csv-stream";
+import { openWorkbook, type SheetSummary } from "@/server/import/excel-reader";
+import { createNDJSONStreamParser, readJSON } from "@/server/import/json-reader";
+import { readParquet } from "@/server/import/parquet-reader";
+
+// Picks the reader for an uploaded file. Delimited text and NDJSON are parsed chunk by chunk as they arrive;
+// JSON documents, workbooks and Parquet files need the whole file, so uploads of those are spooled to disk
+// and read once the last chunk is in. Every reader produces the same rows, stored and profiled the same way.
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]; // .xlsx
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0]; // .xls
+const PARQUET_SIGNATURE = [0x50, 0x41, 0x52, 0x31]; // "PAR1"
+
+function startsWith(head: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => head[i] === byte);
+}
+
+// Binary formats are recognised by their signature, so a misnamed export still reaches the right reader
+export function detectFormat(filename: string, head: Uint8Array): ImportFormat | null {
+  if (startsWith(head, ZIP_SIGNATURE) || startsWith(head, OLE_SIGNATURE)) return "excel";
+  if (startsWith(head, PARQUET_SIGNATURE)) return "parquet";
+  return formatFromFilename(filename);
+}
+
+export function createStreamParser(format: ImportFormat): RowStreamParser | null {
+  if (format === "csv") return createCSVStreamParser();
+  if (format === "tsv") return createCSVStreamParser("\t");
+  if (format === "ndjson") return createNDJSONStreamParser();
+  return null;
+}
+
+// Read a fully spooled file, passing its rows on in batches. A workbook with several non-empty sheets
+// needs one to be chosen: without a sheet the result lists them and nothing is read.
+export async function readSpooledFile(
+  format: ImportFormat,
+  filePath: string,
+  sheet: string | undefined,
+  onRows: (rows: Record<string, any>[]) => Promise<void>
+): Promise<{ success: boolean; error?: string; sheet?: string; sheets?: SheetSummary[]; needsSheet?: boolean }> {
+  if (format === "parquet") {
+    return readParquet(filePath, onRows);
+  }
+
+  if (format === "json") {
+    const result = readJSON(await fs.readFile(filePath, "utf-8"));
+    if (!result.success || !result.rows) return { success: false, error: result.error };
+    await onRows(result.rows);
+    return { success: true };
+  }
+
+  if (format === "excel") {
+    let workbook;
+    try {
+      workbook = openWorkbook(await fs.readFile(filePath));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Unreadable workbook" };
+    }
+    const withData = workbook.sheets.filter(summary => summary.rowCount > 0);
+
+    if (!sheet && withData.length > 1) {
+      return { success: false, needsSheet: true, sheets: withData };
+    }
+
+    const chosen = sheet ?? (withData[0] ?? workbook.sheets[0])?.name;
+    const rows = chosen ? workbook.readSheet(chosen) : null;
+    if (!rows) return { success: false, error: `Sheet "${sheet}" not found in the workbook` };
+
+    await onRows(rows);
+    return { success: true, sheet: chosen, sheets: withData };
+  }
+
+  return { success: false, error: `${format} files are parsed as they are uploaded` };
+}
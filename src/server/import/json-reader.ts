@@ -0,0 +1,71 @@
+import { type RowStreamParser } from "@/server/import/csv-stream";
+import { toRow } from "@/server/import/values";
+
+// Readers for JSON exports: newline-delimited JSON is parsed line by line as chunks arrive, while a JSON
+// document has to be complete before it can be parsed.
+
+export function createNDJSONStreamParser(): RowStreamParser {
+  let carry = "";
+  let lineNumber = 0;
+  let error: string | null = null;
+
+  const parseLines = (lines: string[]): Record<string, any>[] => {
+    const rows: Record<string, any>[] = [];
+    for (const line of lines) {
+      lineNumber++;
+      if (error || !line.trim()) continue;
+      try {
+        rows.push(toRow(JSON.parse(line)));
+      } catch {
+        error = `Line ${lineNumber} is not valid JSON`;
+      }
+    }
+    return rows;
+  };
+
+  return {
+    push(text: string) {
+      const lines = (carry + text).split("\n");
+      carry = lines.pop() || "";
+      return parseLines(lines);
+    },
+
+    end() {
+      const rest = carry;
+      carry = "";
+      return parseLines([rest]);
+    },
+
+    get error() {
+      return error;
+    },
+  };
+}
+
+// The records in a JSON document: a top-level array, or the first array of objects inside a wrapper object
+// such as { "data": [...] }; any other object is read as a single record
+function findRecords(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+  if (typeof document === "object" && document !== null) {
+    const nested = Object.values(document).find(
+      value => Array.isArray(value) && value.length > 0 && value.every(item => typeof item === "object" && item !== null && !Array.isArray(item))
+    );
+    return nested ? (nested as unknown[]) : [document];
+  }
+  return [document];
+}
+
+export function readJSON(text: string): { success: boolean; rows?: Record<string, any>[]; error?: string } {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    // .json exports are often really one object per line
+    const parser = createNDJSONStreamParser();
+    const rows = parser.push(text).concat(parser.end());
+    if (!parser.error && rows.length > 1) return { success: true, rows };
+    return { success: false, error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+
+  return { success: true, rows: findRecords(document).map(record => toRow(record)) };
+}
@@ -0,0 +1,27 @@
+import { asyncBufferFromFile, parquetMetadataAsync, parquetReadObjects } from "hyparquet";
+
+import { toRow } from "@/server/import/values";
+
+// Parquet files are read one row group at a time straight from disk, so only one group's rows are in memory.
+// Snappy-compressed and uncompressed files are supported; other codecs are reported as errors.
+export async function readParquet(
+  filePath: string,
+  onRows: (rows: Record<string, any>[]) => Promise<void>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const file = await asyncBufferFromFile(filePath);
+    const metadata = await parquetMetadataAsync(file);
+
+    let rowStart = 0;
+    for (const group of metadata.row_groups) {
+      const rowEnd = rowStart + Number(group.num_rows);
+      const records = await parquetReadObjects({ file, metadata, rowStart, rowEnd });
+      await onRows(records.map(record => toRow(record)));
+      rowStart = rowEnd;
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
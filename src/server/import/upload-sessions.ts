@@ -0,0 +1,238 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+import { FORMAT_LABELS, UNSUPPORTED_FILE_MESSAGE, formatFromFilename, type ImportFormat } from "@/lib/import-formats";
+import { type RowStreamParser } from "@/server/import/csv-stream";
+import { type SheetSummary } from "@/server/import/excel-reader";
+import { createStreamParser, detectFormat, readSpooledFile } from "@/server/import/formats";
+import { createDatasetWriter, type DatasetMeta, type DatasetWriter } from "@/server/storage/dataset-store";
+
+// Chunked uploads in progress, served by /api/upload.
+// Chunks must arrive in order. Text formats are decoded and parsed as each chunk arrives and their rows are
+// appended to the dataset on disk, so neither a request nor the server ever holds the whole file; formats
+// that can only be read whole are spooled to a temporary file first.
+
+export const MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
+
+// Uploads that stop sending chunks are discarded after this long
+const SESSION_TIMEOUT_MS = 15 * 60 * 1000;
+const PREVIEW_ROWS = 10;
+
+type UploadSession = {
+  id: string;
+  filename: string;
+  size: number;
+  writer: DatasetWriter;
+  format: ImportFormat | null; // Known once the first chunk arrives
+  parser: RowStreamParser | null; // For formats parsed as they arrive
+  spoolPath: string | null; // For formats read once the upload is complete
+  decoder: TextDecoder;
+  nextIndex: number;
+  receivedBytes: number;
+  rowCount: number;
+  preview: Record<string, any>[];
+  busy: boolean; // A chunk is being written; chunks are appended strictly one after another
+  lastActivity: number;
+};
+
+export type UploadResult =
+  | { success: true; uploadId: string; receivedBytes: number; rowCount: number }
+  | { success: false; error: string; status: number; expectedIndex?: number };
+
+export type FinishedUpload =
+  | { success: true; needsSheet?: false; meta: DatasetMeta; preview: Record<string, any>[] }
+  // The workbook has several sheets: the upload stays open until one is chosen
+  | { success: true; needsSheet: true; sheets: SheetSummary[] }
+  | { success: false; error: string; status: number };
+
+const sessions = new Map<string, UploadSession>();
+
+async function discard(session: UploadSession) {
+  sessions.delete(session.id);
+  await session.writer.abort();
+  if (session.spoolPath) await fs.rm(session.spoolPath, { force: true });
+}
+
+function parseError(session: UploadSession, error: string): { success: false; error: string; status: number } {
+  return { success: false, error: `Failed to parse ${FORMAT_LABELS[session.format ?? "csv"]} file: ${error}`, status: 400 };
+}
+
+// Checked on every request rather than on a timer, so nothing keeps running between uploads
+async function expireIdleSessions() {
+  const now = Date.now();
+  for (const session of [...sessions.values()]) {
+    if (now - session.lastActivity > SESSION_TIMEOUT_MS) await discard(session);
+  }
+}
+
+function addRows(session: UploadSession, rows: Record<string, any>[]) {
+  session.rowCount += rows.length;
+  if (session.preview.length < PREVIEW_ROWS) {
+    session.preview.push(...rows.slice(0, PREVIEW_ROWS - session.preview.length));
+  }
+}
+
+export async function startUpload(filename: string, size: number): Promise<UploadResult> {
+  await expireIdleSessions();
+
+  if (!formatFromFilename(filename)) {
+    return { success: false, error: UNSUPPORTED_FILE_MESSAGE, status: 400 };
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return { success: false, error: `File is larger than the ${MAX_UPLOAD_BYTES / (1024 * 1024 * 1024)} GB upload limit.`, status: 413 };
+  }
+
+  const writer = await createDatasetWriter({ filename });
+  const session: UploadSession = {
+    id: writer.id,
+    filename,
+    size,
+    writer,
+    format: null,
+    parser: null,
+    spoolPath: null,
+    decoder: new TextDecoder("utf-8"),
+    nextIndex: 0,
+    receivedBytes: 0,
+    rowCount: 0,
+    preview: [],
+    busy: false,
+    lastActivity: Date.now(),
+  };
+  sessions.set(session.id, session);
+
+  return { success: true, uploadId: session.id, receivedBytes: 0, rowCount: 0 };
+}
+
+// Parse one chunk and append its complete rows; a record cut off at the end waits for the next chunk
+export async function appendChunk(uploadId: string, index: number, chunk: Uint8Array): Promise<UploadResult> {
+  const session = sessions.get(uploadId);
+  if (!session) {
+    return { success: false, error: "Upload not found. It may have expired - please upload the file again.", status: 404 };
+  }
+  if (session.busy || index !== session.nextIndex) {
+    return { success: false, error: `Expected chunk ${session.nextIndex} but received chunk ${index}.`, status: 409, expectedIndex: session.nextIndex };
+  }
+  if (session.receivedBytes + chunk.byteLength > Math.min(session.size, MAX_UPLOAD_BYTES)) {
+    await discard(session);
+    return { success: false, error: "Upload is larger than the declared file size.", status: 413 };
+  }
+
+  session.lastActivity = Date.now();
+  session.nextIndex++;
+  session.receivedBytes += chunk.byteLength;
+  session.busy = true;
+
+  try {
+    if (index === 0) {
+      session.format = detectFormat(session.filename, chunk);
+      if (!session.format) {
+        await discard(session);
+        return { success: false, error: UNSUPPORTED_FILE_MESSAGE, status: 400 };
+      }
+      session.parser = createStreamParser(session.format);
+      if (!session.parser) {
+        session.spoolPath = path.join(os.tmpdir(), `upload-${session.id}${path.extname(session.filename)}`);
+        await fs.writeFile(session.spoolPath, "");
+      }
+    }
+
+    if (session.parser) {
+      // stream: true keeps multi-byte characters that straddle two chunks intact
+      const rows = session.parser.push(session.decoder.decode(chunk, { stream: true }));
+      if (session.parser.error) {
+        await discard(session);
+        return parseError(session, session.parser.error);
+      }
+
+      addRows(session, rows);
+      await session.writer.append(rows);
+    } else if (session.spoolPath) {
+      await fs.appendFile(session.spoolPath, chunk);
+    }
+  } catch (error) {
+    await discard(session);
+    throw error;
+  } finally {
+    session.busy = false;
+  }
+
+  return { success: true, uploadId, receivedBytes: session.receivedBytes, rowCount: session.rowCount };
+}
+
+// Parse whatever is left after the last chunk (or read the spooled file), then profile and register the dataset.
+// sheet picks the worksheet to import from a workbook that has several.
+export async function finishUpload(uploadId: string, sheet?: string): Promise<FinishedUpload> {
+  const session = sessions.get(uploadId);
+  if (!session) {
+    return { success: false, error: "Upload not found. It may have expired - please upload the file again.", status: 404 };
+  }
+  if (session.busy) {
+    return { success: false, error: "The upload is still being processed.", status: 409 };
+  }
+  if (session.receivedBytes !== session.size) {
+    await discard(session);
+    return { success: false, error: `Upload incomplete: received ${session.receivedBytes} of ${session.size} bytes.`, status: 400 };
+  }
+
+  session.lastActivity = Date.now();
+  session.busy = true;
+
+  try {
+    let name: string | undefined;
+
+    if (session.parser) {
+      const rows = session.parser.push(session.decoder.decode()).concat(session.parser.end());
+      if (session.parser.error) {
+        await discard(session);
+        return parseError(session, session.parser.error);
+      }
+      addRows(session, rows);
+      await session.writer.append(rows);
+    } else if (session.format && session.spoolPath) {
+      const read = await readSpooledFile(session.format, session.spoolPath, sheet, async rows => {
+        addRows(session, rows);
+        await session.writer.append(rows);
+      });
+      if (read.needsSheet && read.sheets) {
+        return { success: true, needsSheet: true, sheets: read.sheets };
+      }
+      if (!read.success) {
+        await discard(session);
+        return parseError(session, read.error || "Unknown error");
+      }
+      // Each sheet of a workbook can become its own dataset, so tell them apart in the library
+      if (read.sheet && read.sheets && read.sheets.length > 1) {
+        name = `${session.filename} (${read.sheet})`;
+      }
+    }
+
+    if (session.rowCount === 0) {
+      await discard(session);
+      return { success: false, error: "File appears to be empty or has no valid data rows.", status: 400 };
+    }
+
+    const meta = await session.writer.finish(name);
+    sessions.delete(uploadId);
+    if (session.spoolPath) await fs.rm(session.spoolPath, { force: true });
+
+    return {
+      success: true,
+      meta,
+      preview: session.preview,
+    };
+  } catch (error) {
+    await discard(session);
+    throw error;
+  } finally {
+    session.busy = false;
+  }
+}
+
+export async function cancelUpload(uploadId: string): Promise<boolean> {
+  const session = sessions.get(uploadId);
+  if (!session) return false;
+  await discard(session);
+  return true;
+}
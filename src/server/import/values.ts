@@ -0,0 +1,42 @@
+// Turns values from typed formats (JSON, Excel, Parquet) into the plain cells stored for every dataset.
+// Text formats only ever produce strings; typed formats keep numbers and booleans as they are, and everything
+// else becomes a string the column profiler and query engine already understand.
+
+export function toCellValue(value: unknown): string | number | boolean {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : "";
+  if (typeof value === "bigint") {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return "";
+    const iso = value.toISOString();
+    // Dates without a time of day are stored as plain dates so they group by day
+    return iso.endsWith("T00:00:00.000Z") ? iso.substring(0, 10) : iso;
+  }
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  return JSON.stringify(value, (_key, inner) => (typeof inner === "bigint" ? inner.toString() : inner));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+}
+
+// Nested objects become dotted column names ({ address: { city } } -> "address.city"); arrays stay as JSON text
+export function toRow(record: unknown, prefix = "", row: Record<string, any> = {}): Record<string, any> {
+  if (!isPlainObject(record)) {
+    row[prefix || "value"] = toCellValue(record);
+    return row;
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key.trim()}` : key.trim();
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      toRow(value, name, row);
+    } else {
+      row[name] = toCellValue(value);
+    }
+  }
+  return row;
+}
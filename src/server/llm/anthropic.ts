@@ -0,0 +1,51 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { type LLMCompletionRequest, type LLMProvider, type LLMTask } from "@/server/llm/provider";
+
+// Anthropic Messages API - system prompts are passed separately from the conversation
+export function createAnthropicProvider(options: {
+  apiKey: string;
+  models: Record<LLMTask, string>;
+}): LLMProvider {
+  const client = new Anthropic({ apiKey: options.apiKey });
+
+  const toMessageParams = ({ task, messages, temperature, maxTokens }: LLMCompletionRequest) => {
+    const system = messages
+      .filter(message => message.role === "system")
+      .map(message => message.content)
+      .join("\n\n");
+
+    return {
+      model: options.models[task],
+      system: system || undefined,
+      messages: messages
+        .filter(message => message.role !== "system")
+        .map(message => ({ role: message.role as "user" | "assistant", content: message.content })),
+      temperature,
+      max_tokens: maxTokens ?? 1024,
+    };
+  };
+
+  return {
+    label: "Anthropic",
+    models: options.models,
+    async complete(request) {
+      const response = await client.messages.create(toMessageParams(request), { signal: request.signal });
+
+      return response.content
+        .map(block => (block.type === "text" ? block.text : ""))
+        .join("");
+    },
+    async stream(request, onToken) {
+      const stream = await client.messages.create({ ...toMessageParams(request), stream: true }, { signal: request.signal });
+
+      let text = "";
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        }
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import OpenAI from "openai";
+import { type LLMProvider, type LLMTask } from "@/server/llm/provider";
+
+// OpenAI chat completions, also used for OpenAI-compatible local servers via a custom baseURL
+export function createOpenAICompatibleProvider(options: {
+  label: string;
+  apiKey: string;
+  baseURL?: string;
+  models: Record<LLMTask, string>;
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  return {
+    label: options.label,
+    models: options.models,
+    async complete({ task, messages, temperature, maxTokens, signal }) {
+      const completion = await client.chat.completions.create({
+        model: options.models[task],
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+      }, { signal });
+
+      return completion.choices[0]?.message?.content || "";
+    },
+    async stream({ task, messages, temperature, maxTokens, signal }, onToken) {
+      const stream = await client.chat.completions.create({
+        model: options.models[task],
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+      }, { signal });
+
+      let text = "";
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      }
+      return text;
+    },
+  };
+}
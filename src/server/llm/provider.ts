@@ -0,0 +1,121 @@
+import { env } from "@/env";
+import { createOpenAICompatibleProvider } from "@/server/llm/openai";
+import { createAnthropicProvider } from "@/server/llm/anthropic";
+
+// Vendor-neutral interface for the LLM calls made by the data router.
+// The active provider and the model used for each task are chosen from env config (see src/env.js).
+
+export type LLMTask = "sql" | "chart";
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LLMCompletionRequest = {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal; // Aborts the request to the provider, including a stream in progress
+};
+
+export interface LLMProvider {
+  // Human-readable name used in error messages, e.g. "OpenAI"
+  label: string;
+  // Model used for each task
+  models: Record<LLMTask, string>;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  // Same as complete(), but reports the text as it is generated; resolves with the full text
+  stream(request: LLMCompletionRequest, onToken: (token: string) => void): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<"openai" | "anthropic" | "local", Record<LLMTask, string>> = {
+  openai: { sql: "gpt-4-turbo-preview", chart: "gpt-4-turbo-preview" },
+  anthropic: { sql: "claude-sonnet-4-0", chart: "claude-sonnet-4-0" },
+  local: { sql: "llama3.1", chart: "llama3.1" },
+};
+
+function resolveModels(provider: keyof typeof DEFAULT_MODELS): Record<LLMTask, string> {
+  return {
+    sql: env.LLM_SQL_MODEL || DEFAULT_MODELS[provider].sql,
+    chart: env.LLM_CHART_MODEL || DEFAULT_MODELS[provider].chart,
+  };
+}
+
+// Use LLM_PROVIDER when set, otherwise the first backend that has credentials configured
+function resolveProviderName(): keyof typeof DEFAULT_MODELS | null {
+  if (env.LLM_PROVIDER) return env.LLM_PROVIDER;
+  if (env.OPENAI_API_KEY) return "openai";
+  if (env.ANTHROPIC_API_KEY) return "anthropic";
+  if (env.LOCAL_LLM_BASE_URL) return "local";
+  return null;
+}
+
+function createProvider(): LLMProvider | null {
+  const name = resolveProviderName();
+
+  if (name === "openai" && env.OPENAI_API_KEY) {
+    return createOpenAICompatibleProvider({
+      label: "OpenAI",
+      apiKey: env.OPENAI_API_KEY,
+      models: resolveModels("openai"),
+    });
+  }
+
+  if (name === "anthropic" && env.ANTHROPIC_API_KEY) {
+    return createAnthropicProvider({
+      apiKey: env.ANTHROPIC_API_KEY,
+      models: resolveModels("anthropic"),
+    });
+  }
+
+  if (name === "local" && env.LOCAL_LLM_BASE_URL) {
+    return createOpenAICompatibleProvider({
+      label: "Local model",
+      apiKey: env.LOCAL_LLM_API_KEY || "not-needed", // Most local servers (Ollama, vLLM, LM Studio) ignore the key
+      baseURL: env.LOCAL_LLM_BASE_URL,
+      models: resolveModels("local"),
+    });
+  }
+
+  return null;
+}
+
+// Created once per server process; null when no provider is configured
+export const llm = createProvider();
+
+export const LLM_NOT_CONFIGURED_ERROR =
+  "No LLM provider configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY or LOCAL_LLM_BASE_URL in your environment variables.";
+
+// Abort a completion that takes longer than the timeout, so a slow provider can't hang the request and isn't
+// left generating tokens nobody reads. A signal on the request (e.g. from a client that disconnected) aborts it as
+// well. Passing onToken streams the completion instead of waiting for the whole response.
+export async function completeWithTimeout(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  timeoutMs: number,
+  onToken?: (token: string) => void
+): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  if (request.signal?.aborted) cancel();
+  request.signal?.addEventListener("abort", cancel);
+  const abortable = { ...request, signal: controller.signal };
+
+  try {
+    return await (onToken ? provider.stream(abortable, onToken) : provider.complete(abortable));
+  } catch (error) {
+    if (request.signal?.aborted) {
+      throw new Error(`${provider.label} request was cancelled`);
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`${provider.label} request timeout after ${timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener("abort", cancel);
+  }
+}
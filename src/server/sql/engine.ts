@@ -0,0 +1,256 @@
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import path from "path";
+import { type ColumnSchema, type SQLTable } from "@/server/sql/tables";
+import { parseNumber, parseBoolean, toISODate } from "@/lib/column-profile";
+import { isTimeUnit, truncateDate, type TimeUnit } from "@/server/sql/time-buckets";
+
+// Embedded SQLite engine (sql.js / WebAssembly) used to execute LLM-generated queries.
+// Loaded datasets are kept as read-only in-memory databases and reused by later queries on the same rows,
+// so a query doesn't pay for inserting every row again. Writes fail on them (PRAGMA query_only, which the
+// validator never lets through), so nothing leaks between requests.
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+// Load the WebAssembly module once per server process
+function getSQL(): Promise<SqlJsStatic> {
+  if (!sqlPromise) {
+    sqlPromise = initSqlJs({
+      locateFile: (file) => path.join(process.cwd(), "node_modules", "sql.js", "dist", file),
+    });
+  }
+  return sqlPromise;
+}
+
+// Statistical aggregates SQLite doesn't ship with, registered on every query database. Non-numeric values
+// are skipped like NULLs, and an empty group (or an out-of-range percentile) gives NULL.
+type Aggregate = {
+  init: () => any;
+  step: (state: any, ...args: any[]) => any;
+  finalize: (state: any) => number | null;
+};
+
+// Linear interpolation between the closest ranks, as in SQLite's percentile extension
+function percentile(values: number[], p: number | null): number | null {
+  if (values.length === 0 || p === null || !(p >= 0 && p <= 100)) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  return sorted[lower] + (sorted[Math.ceil(rank)] - sorted[lower]) * (rank - lower);
+}
+
+function collectValues(): Pick<Aggregate, "init" | "step"> {
+  return {
+    init: () => ({ values: [] as number[], p: null as number | null }),
+    step: (state, value, p) => {
+      if (typeof value === "number" && Number.isFinite(value)) state.values.push(value);
+      if (typeof p === "number") state.p = p;
+      return state;
+    },
+  };
+}
+
+// Running mean and sum of squared deviations (Welford), so large values don't lose precision
+function variance(sample: boolean): Aggregate {
+  return {
+    init: () => ({ count: 0, mean: 0, squares: 0 }),
+    step: (state, value) => {
+      if (typeof value !== "number" || !Number.isFinite(value)) return state;
+      state.count += 1;
+      const delta = value - state.mean;
+      state.mean += delta / state.count;
+      state.squares += delta * (value - state.mean);
+      return state;
+    },
+    finalize: (state) => {
+      const divisor = sample ? (state?.count ?? 0) - 1 : state?.count ?? 0;
+      return divisor > 0 ? state.squares / divisor : null;
+    },
+  };
+}
+
+function standardDeviation(sample: boolean): Aggregate {
+  const base = variance(sample);
+  return {
+    ...base,
+    finalize: (state) => {
+      const result = base.finalize(state);
+      return result === null ? null : Math.sqrt(result);
+    },
+  };
+}
+
+const AGGREGATES: Record<string, Aggregate> = {
+  MEDIAN: { ...collectValues(), finalize: (state) => percentile(state?.values ?? [], 50) },
+  PERCENTILE: { ...collectValues(), finalize: (state) => percentile(state?.values ?? [], state?.p) }, // PERCENTILE(x, 90)
+  STDDEV: standardDeviation(true),
+  STDDEV_POP: standardDeviation(false),
+  VARIANCE: variance(true),
+  VAR_POP: variance(false),
+};
+
+export const CUSTOM_AGGREGATES = Object.keys(AGGREGATES);
+
+// Scalar functions registered alongside them. DATE_TRUNC('quarter', date) gives the first day of the period.
+const FUNCTIONS: Record<string, (...args: any[]) => SqlValue> = {
+  DATE_TRUNC: (unit, value) => (isTimeUnit(unit) ? truncateDate(value, unit.toLowerCase() as TimeUnit) : null),
+};
+
+export const CUSTOM_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// The sql.js typings don't include create_aggregate
+type AggregateDatabase = Database & {
+  create_aggregate(name: string, aggregate: Aggregate): Database;
+};
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// CSV values arrive as strings - convert them by the column's profiled type so SUM/AVG/MIN/MAX and date
+// comparisons behave like a real database; values that don't fit the type become NULL
+function toSqlValue(value: any, column: ColumnSchema): SqlValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" && value.trim() === "") return null;
+
+  if (column.type === "number") {
+    return parseNumber(value, column.numberFormat);
+  }
+
+  if (column.type === "date") {
+    return toISODate(value) ?? String(value);
+  }
+
+  if (column.type === "boolean") {
+    const parsed = parseBoolean(value);
+    return parsed === null ? null : parsed ? 1 : 0;
+  }
+
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return String(value);
+}
+
+function loadTable(db: Database, { name, rows, schema }: SQLTable) {
+  const columnDefs = schema.map(col =>
+    `${quoteIdentifier(col.name)} ${col.type === "number" ? "REAL" : col.type === "boolean" ? "INTEGER" : "TEXT"}`
+  ).join(", ");
+  db.run(`CREATE TABLE ${quoteIdentifier(name)} (${columnDefs})`);
+
+  const placeholders = schema.map(() => "?").join(", ");
+  const insert = db.prepare(`INSERT INTO ${quoteIdentifier(name)} VALUES (${placeholders})`);
+
+  db.run("BEGIN TRANSACTION");
+  try {
+    rows.forEach(row => {
+      insert.run(schema.map(col => toSqlValue(row[col.name], col)));
+    });
+    db.run("COMMIT");
+  } finally {
+    insert.free();
+  }
+}
+
+// Databases built for recent sets of tables. The least recently used are closed once they hold more rows
+// than this in total; the one just built is always kept.
+const MAX_CACHED_DATABASE_ROWS = 1_000_000;
+
+type CachedDatabase = { db: Database; rowCount: number; datasetIds: string[] };
+
+const databaseCache = new Map<string, CachedDatabase>();
+
+// Row arrays are identified by object, so a dataset that is saved or reloaded gets a new database
+const rowsIds = new WeakMap<Record<string, any>[], number>();
+let nextRowsId = 1;
+
+function databaseKey(tables: SQLTable[]): string {
+  return JSON.stringify(tables.map(table => {
+    if (!rowsIds.has(table.rows)) rowsIds.set(table.rows, nextRowsId++);
+    return [table.name, rowsIds.get(table.rows), table.schema.map(col => [col.name, col.type, col.numberFormat])];
+  }));
+}
+
+function cacheDatabase(key: string, entry: CachedDatabase) {
+  databaseCache.set(key, entry);
+
+  let total = 0;
+  databaseCache.forEach(cached => {
+    total += cached.rowCount;
+  });
+  for (const [cachedKey, cached] of databaseCache) {
+    if (total <= MAX_CACHED_DATABASE_ROWS || cachedKey === key) break;
+    databaseCache.delete(cachedKey);
+    cached.db.close();
+    total -= cached.rowCount;
+  }
+}
+
+async function getDatabase(tables: SQLTable[]): Promise<Database> {
+  // Everything after this is synchronous, so concurrent queries can't build the same database twice
+  const SQL = await getSQL();
+  const key = databaseKey(tables);
+  const cached = databaseCache.get(key);
+  if (cached) {
+    // Re-inserting moves it to the most recently used end
+    databaseCache.delete(key);
+    databaseCache.set(key, cached);
+    return cached.db;
+  }
+
+  const db = new SQL.Database();
+  try {
+    Object.entries(AGGREGATES).forEach(([name, aggregate]) => (db as AggregateDatabase).create_aggregate(name, aggregate));
+    Object.entries(FUNCTIONS).forEach(([name, fn]) => db.create_function(name, fn));
+    tables.forEach(table => loadTable(db, table));
+    db.run("PRAGMA query_only = ON");
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+
+  cacheDatabase(key, {
+    db,
+    rowCount: tables.reduce((sum, table) => sum + table.rows.length, 0),
+    datasetIds: tables.flatMap(table => (table.datasetId ? [table.datasetId] : [])),
+  });
+  return db;
+}
+
+// Close every database holding a dataset's rows, e.g. once the dataset has been deleted
+export function evictDatabases(datasetId: string) {
+  for (const [key, cached] of databaseCache) {
+    if (!cached.datasetIds.includes(datasetId)) continue;
+    databaseCache.delete(key);
+    cached.db.close();
+  }
+}
+
+// Execute a SQL statement against one or more datasets, each loaded as its own table
+export async function executeSQL(sql: string, tables: SQLTable[]): Promise<{
+  success: boolean;
+  rows?: Record<string, any>[];
+  error?: string;
+}> {
+  try {
+    const db = await getDatabase(tables);
+    const statement = db.prepare(sql);
+    const result: Record<string, any>[] = [];
+    try {
+      while (statement.step()) {
+        result.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    return {
+      success: true,
+      rows: result,
+    };
+  } catch (error) {
+    console.error("SQL execution error:", error);
+
+    return {
+      success: false,
+      error: `Failed to execute SQL: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+}
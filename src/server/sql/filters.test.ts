@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { activeFilters, applyFilters } from "@/server/sql/filters";
+import { validateSQL } from "@/server/sql/validator";
+import { type SQLTable } from "@/server/sql/tables";
+
+const table: SQLTable = {
+  name: "dataset",
+  label: "Treatment costs",
+  rows: [],
+  schema: [
+    { name: "brand_name", type: "string" },
+    { name: "yearly_cost", type: "number" },
+    { name: "launch_date", type: "date" },
+  ],
+};
+
+describe("activeFilters", () => {
+  it("drops filters with nothing selected", () => {
+    expect(activeFilters([
+      { column: "brand_name", type: "category", values: [] },
+      { column: "launch_date", type: "date", start: null, end: null },
+      { column: "yearly_cost", type: "numeric", min: null, max: null },
+      { column: "yearly_cost", type: "numeric", min: 0, max: null },
+    ])).toEqual([{ column: "yearly_cost", type: "numeric", min: 0, max: null }]);
+  });
+});
+
+describe("applyFilters", () => {
+  it("returns the query unchanged when no filter is active", () => {
+    const sql = "SELECT COUNT(*) FROM dataset";
+    expect(applyFilters(sql, [{ column: "brand_name", type: "category", values: [] }], table)).toEqual({ success: true, sql });
+  });
+
+  it("adds the filters as WHERE predicates", () => {
+    const result = applyFilters("SELECT brand_name, SUM(yearly_cost) FROM dataset GROUP BY brand_name", [
+      { column: "yearly_cost", type: "numeric", min: 100, max: 500 },
+      { column: "launch_date", type: "date", start: "2024-01-01", end: null },
+    ], table);
+
+    expect(result.success).toBe(true);
+    expect(result.sql).toContain(`"dataset"."yearly_cost" >= 100`);
+    expect(result.sql).toContain(`"dataset"."yearly_cost" <= 500`);
+    expect(result.sql).toContain(`DATE("dataset"."launch_date") >= '2024-01-01'`);
+    expect(validateSQL(result.sql!, [table]).success).toBe(true);
+  });
+
+  it("quotes category values, including embedded quotes", () => {
+    const result = applyFilters("SELECT * FROM dataset", [
+      { column: "brand_name", type: "category", values: ["O'Brien", "x') OR 1=1 --"] },
+    ], table);
+
+    expect(result.success).toBe(true);
+    expect(result.sql).toContain(`'O''Brien'`);
+    expect(result.sql).toContain(`'x'') OR 1=1 --'`);
+    expect(validateSQL(result.sql!, [table]).success).toBe(true);
+  });
+
+  it("keeps an existing OR condition grouped when adding filters", () => {
+    const result = applyFilters("SELECT * FROM dataset WHERE yearly_cost > 10 OR yearly_cost < 1", [
+      { column: "brand_name", type: "category", values: ["A"] },
+    ], table);
+
+    expect(result.sql).toMatch(/WHERE \(.*OR.*\) AND "dataset"\."brand_name" IN \('A'\)/);
+  });
+
+  it("filters every SELECT that reads the dataset, using its alias", () => {
+    const result = applyFilters(
+      "SELECT d.brand_name FROM dataset d WHERE d.yearly_cost > (SELECT AVG(yearly_cost) FROM dataset)",
+      [{ column: "brand_name", type: "category", values: ["A"] }],
+      table
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.sql).toContain(`"d"."brand_name" IN ('A')`);
+    expect(result.sql).toContain(`"dataset"."brand_name" IN ('A')`);
+  });
+
+  it("filters each branch of a UNION", () => {
+    const result = applyFilters(
+      "SELECT brand_name FROM dataset WHERE yearly_cost > 100 UNION SELECT brand_name FROM dataset WHERE yearly_cost < 10",
+      [{ column: "brand_name", type: "category", values: ["A"] }],
+      table
+    );
+
+    expect(result.sql?.match(/"dataset"\."brand_name" IN \('A'\)/g)).toHaveLength(2);
+  });
+
+  it("rejects filters on columns the dataset doesn't have", () => {
+    const result = applyFilters("SELECT * FROM dataset", [{ column: "price", type: "numeric", min: 1, max: null }], table);
+    expect(result).toEqual({ success: false, error: 'Filter column "price" does not exist in Treatment costs.' });
+  });
+
+  it("rejects queries that don't read the dataset", () => {
+    const result = applyFilters("SELECT 1", [{ column: "brand_name", type: "category", values: ["A"] }], table);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("this query doesn't read it");
+  });
+});
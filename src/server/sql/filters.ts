@@ -0,0 +1,132 @@
+import { Parser } from "node-sql-parser";
+import { PRIMARY_TABLE, type SQLTable } from "@/server/sql/tables";
+
+// Filters chosen in the analysis panel, applied to the primary dataset as WHERE predicates.
+// They are added to every SELECT that reads the dataset table (subqueries, CTEs and UNION branches included),
+// so aggregates are computed over the filtered source rows instead of filtering the aggregated result.
+
+export type QueryFilter =
+  | { column: string; type: "category"; values: string[] }
+  | { column: string; type: "date"; start: string | null; end: string | null }
+  | { column: string; type: "numeric"; min: number | null; max: number | null };
+
+const parser = new Parser();
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Filters with nothing selected don't restrict anything
+export function activeFilters(filters: QueryFilter[]): QueryFilter[] {
+  return filters.filter(filter => {
+    if (filter.type === "category") return filter.values.length > 0;
+    if (filter.type === "date") return Boolean(filter.start || filter.end);
+    return filter.min !== null || filter.max !== null;
+  });
+}
+
+export function describeFilter(filter: QueryFilter): string {
+  if (filter.type === "category") {
+    return `${filter.column} is ${filter.values.length === 1 ? filter.values[0] : `one of ${filter.values.join(", ")}`}`;
+  }
+  if (filter.type === "date") {
+    return `${filter.column} ${filter.start ? `from ${filter.start}` : ""}${filter.start && filter.end ? " " : ""}${filter.end ? `to ${filter.end}` : ""}`;
+  }
+  return `${filter.column} ${filter.min !== null ? `>= ${filter.min}` : ""}${filter.min !== null && filter.max !== null ? " and " : ""}${filter.max !== null ? `<= ${filter.max}` : ""}`;
+}
+
+function toPredicates(filter: QueryFilter, qualifier: string): string[] {
+  const column = `${quoteIdentifier(qualifier)}.${quoteIdentifier(filter.column)}`;
+
+  if (filter.type === "category") {
+    return [`${column} IN (${filter.values.map(quoteLiteral).join(", ")})`];
+  }
+
+  if (filter.type === "date") {
+    // DATE() normalises timestamps so an end date includes the whole day
+    return [
+      ...(filter.start ? [`DATE(${column}) >= ${quoteLiteral(filter.start)}`] : []),
+      ...(filter.end ? [`DATE(${column}) <= ${quoteLiteral(filter.end)}`] : []),
+    ];
+  }
+
+  return [
+    ...(filter.min !== null ? [`${column} >= ${filter.min}`] : []),
+    ...(filter.max !== null ? [`${column} <= ${filter.max}`] : []),
+  ];
+}
+
+// Build the WHERE tree for one reference to the dataset table by parsing the predicates as SQL
+function filterCondition(filters: QueryFilter[], qualifier: string): any {
+  const predicates = filters.flatMap(filter => toPredicates(filter, qualifier));
+  const ast: any = parser.astify(`SELECT * FROM ${quoteIdentifier(PRIMARY_TABLE)} WHERE ${predicates.join(" AND ")}`, { database: "sqlite" });
+  return (Array.isArray(ast) ? ast[0] : ast).where;
+}
+
+function addConditions(select: any, filters: QueryFilter[]): number {
+  const references = (select.from ?? []).filter((entry: any) => entry.table === PRIMARY_TABLE);
+
+  for (const entry of references) {
+    const condition = filterCondition(filters, entry.as || PRIMARY_TABLE);
+    const existing = select.where;
+
+    select.where = existing
+      ? {
+          type: "binary_expr",
+          operator: "AND",
+          left: existing.type === "binary_expr" && existing.operator === "OR" ? { ...existing, parentheses: true } : existing,
+          right: condition,
+        }
+      : condition;
+  }
+
+  return references.length;
+}
+
+// Visit children first so the conditions added to a SELECT aren't walked again
+function applyToTree(node: any, filters: QueryFilter[]): number {
+  if (!node || typeof node !== "object") return 0;
+  if (Array.isArray(node)) {
+    return node.reduce((count, child) => count + applyToTree(child, filters), 0);
+  }
+
+  let count = Object.values(node).reduce<number>((total, child) => total + applyToTree(child, filters), 0);
+  if (node.type === "select" && Array.isArray(node.from)) {
+    count += addConditions(node, filters);
+  }
+  return count;
+}
+
+// Add the filters to a validated query; returns the query unchanged when no filter is active
+export function applyFilters(sql: string, filters: QueryFilter[], table: SQLTable): {
+  success: boolean;
+  sql?: string;
+  error?: string;
+} {
+  const active = activeFilters(filters);
+  if (active.length === 0) {
+    return { success: true, sql };
+  }
+
+  const unknown = active.find(filter => !table.schema.some(col => col.name === filter.column));
+  if (unknown) {
+    return { success: false, error: `Filter column "${unknown.column}" does not exist in ${table.label}.` };
+  }
+
+  try {
+    const ast: any = parser.astify(sql, { database: "sqlite" });
+    if (applyToTree(ast, active) === 0) {
+      return { success: false, error: `Filters apply to ${table.label}, but this query doesn't read it.` };
+    }
+    return { success: true, sql: parser.sqlify(ast, { database: "sqlite" }) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not apply filters: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { planQueryOffline } from "@/server/sql/planner";
+import { PRIMARY_TABLE, type SQLTable } from "@/server/sql/tables";
+
+const table: SQLTable = {
+  name: PRIMARY_TABLE,
+  label: "assessments.csv",
+  rows: [],
+  schema: [
+    { name: "assessment_number", type: "number" },
+    { name: "started_date", type: "date" },
+    { name: "brand_name", type: "string" },
+    { name: "indication", type: "string" },
+    { name: "yearly_price", type: "number" },
+    { name: "patientId", type: "number" },
+  ],
+};
+
+describe("planQueryOffline", () => {
+  it("sums a numeric measure by a category", () => {
+    const plan = planQueryOffline("total price by indication", table);
+    expect(plan.success).toBe(true);
+    expect(plan.sql).toContain('SUM("yearly_price") AS total_yearly_price');
+    expect(plan.sql).toContain('GROUP BY "indication"');
+  });
+
+  it("ranks the top N by a matched measure", () => {
+    const plan = planQueryOffline("top 5 brands by price", table);
+    expect(plan.success).toBe(true);
+    expect(plan.sql).toContain('SUM("yearly_price")');
+    expect(plan.sql).toContain("DESC LIMIT 5");
+  });
+
+  it("reports an unknown measure instead of ranking by a count", () => {
+    const plan = planQueryOffline("top 5 brands by rebate", table);
+    expect(plan.success).toBe(false);
+    expect(plan.error).toContain('Unknown measure "rebate"');
+  });
+
+  it("still ranks by a count when one is asked for", () => {
+    const plan = planQueryOffline("top 5 brands by number of indications", table);
+    expect(plan.success).toBe(true);
+    expect(plan.sql).toContain("COUNT(*)");
+  });
+
+  it("counts records rather than summing id-like numeric columns", () => {
+    const plan = planQueryOffline("assessments started per quarter", table);
+    expect(plan.success).toBe(true);
+    expect(plan.sql).toContain("COUNT(*) AS record_count");
+    expect(plan.sql).not.toContain("assessment_number");
+  });
+
+  it("never offers key columns as measures", () => {
+    const plan = planQueryOffline("average patient id by indication", table);
+    expect(plan.success).toBe(false);
+    expect(plan.error).toContain("Numeric columns in this dataset: yearly_price.");
+  });
+
+  it("counts distinct values of any column", () => {
+    const plan = planQueryOffline("how many distinct brands", table);
+    expect(plan.success).toBe(true);
+    expect(plan.sql).toBe('SELECT COUNT(DISTINCT "brand_name") AS distinct_brand_name FROM dataset');
+  });
+});
@@ -0,0 +1,528 @@
+import { Parser } from "node-sql-parser";
+import { PRIMARY_TABLE, type ColumnSchema, type SQLTable } from "@/server/sql/tables";
+import { CUSTOM_AGGREGATES } from "@/server/sql/engine";
+import { type TimeUnit } from "@/server/sql/time-buckets";
+import { type DataDictionary } from "@/lib/data-dictionary";
+
+// Rule-based fallback used when no LLM provider is configured (e.g. air-gapped installs).
+// It recognises a handful of common phrasings - "total X by Y", "average X per Y", "count of Y",
+// "min, max and median X by Y", "how many distinct Y", "top 10 Y by X", "X over time", "count per quarter" -
+// and maps the words onto the primary dataset's columns with fuzzy matching.
+
+// One aggregate column of a query's result, e.g. { aggregation: "median", field: "price", alias: "median_price" }
+export type Measure = {
+  aggregation: string;
+  field: string; // Empty for COUNT(*)
+  alias: string;
+};
+
+export type OfflinePlan = {
+  success: boolean;
+  sql?: string;
+  aggregationType?: string;
+  groupByField?: string;
+  aggregateField?: string;
+  measures?: Measure[]; // Every aggregate in the result, in column order; aggregationType and aggregateField describe the first
+  chartType?: "bar" | "line" | "pie";
+  basedOnTurn?: number;
+  error?: string;
+};
+
+type Aggregation = "sum" | "avg" | "count" | "count_distinct" | "min" | "max" | "median" | "percentile" | "stddev";
+
+const COUNT_PATTERN = /\b(count|counts|number of|how many|frequency)\b/;
+const DISTINCT_PATTERN = /\b(distinct|unique|different)\b/;
+const PERCENTILE_PATTERN = /\b(\d{1,2})(?:st|nd|rd|th)? percentile\b|\bp(\d{1,2})\b/;
+
+// Several of these can be asked for at once ("min, max and median price"), giving one measure each
+const AGGREGATION_PATTERNS: [Aggregation, RegExp][] = [
+  ["avg", /\b(average|avg|mean)\b/],
+  ["sum", /\b(total|sum)\b/],
+  ["median", /\b(median)\b/],
+  ["percentile", PERCENTILE_PATTERN],
+  ["stddev", /\b(standard deviation|std ?dev|stdev)\b/],
+  ["max", /\b(maximum|max)\b/],
+  ["min", /\b(minimum|min)\b/],
+];
+
+// Words that only name an aggregate when nothing else does ("overall average", "highest average")
+const FALLBACK_PATTERNS: [Aggregation, RegExp][] = [
+  ["sum", /\b(overall)\b/],
+  ["max", /\b(highest|largest|most expensive)\b/],
+  ["min", /\b(lowest|smallest|cheapest)\b/],
+];
+
+const AGGREGATION_ALIASES: Record<Aggregation, string> = {
+  sum: "total",
+  avg: "avg",
+  count: "count",
+  count_distinct: "distinct",
+  min: "min",
+  max: "max",
+  median: "median",
+  percentile: "p",
+  stddev: "stddev",
+};
+
+const OVER_TIME_PATTERN = /\b(over time|trend|trends|timeline|time series|(?:by|per|each) (?:date|day|week|month|quarter|year)|daily|weekly|monthly|quarterly|annually)\b/;
+
+// The period an over-time question groups dates by; "over time" alone is bucketed by month
+const TIME_UNIT_PATTERNS: [TimeUnit, RegExp][] = [
+  ["day", /\b(date|day|daily)\b/],
+  ["week", /\b(week|weekly)\b/],
+  ["month", /\b(month|monthly)\b/],
+  ["quarter", /\b(quarter|quarterly)\b/],
+  ["year", /\b(year|annually)\b/],
+];
+// Numeric columns named like keys ("assessment_number", "patientId", "site_code") identify records rather than measure them
+const IDENTIFIER_PATTERN = /(?:^|_)(?:id|ids|number|num|no|nr|code|key|idx)$/;
+const DISTRIBUTION_PATTERN = /\b(distribution|breakdown|share|percentage|proportion|split)\b/;
+const GROUP_SPLIT_PATTERN = /\s(?:grouped by|broken down by|for each|by|per|across)\s/;
+
+// Words that never identify a column on their own
+const STOP_WORDS = new Set([
+  "a", "an", "the", "of", "in", "for", "is", "are", "was", "what", "which", "show", "me", "give", "list",
+  "all", "and", "with", "to", "do", "does", "how", "many", "each", "per", "by", "over", "top", "bottom",
+  "first", "across", "grouped", "broken", "down", "chart", "plot", "graph", "table", "value", "values",
+]);
+
+// Aggregate words help pick between e.g. patient_population_min/_avg/_max, but can't identify a column alone
+const AGGREGATE_WORDS = new Set([
+  "avg", "average", "mean", "min", "minimum", "max", "maximum", "total", "sum", "count", "number",
+  "median", "percentile", "standard", "deviation", "stddev", "stdev", "distinct", "unique", "different",
+]);
+
+// Domain words that commonly refer to the same column under a different name
+const SYNONYMS: Record<string, string[]> = {
+  avg: ["average", "mean"],
+  min: ["minimum", "lowest"],
+  max: ["maximum", "highest"],
+  cost: ["price", "spend", "expense", "amount"],
+  price: ["cost", "spend", "expense", "amount"],
+  date: ["time", "day", "month", "year"],
+  count: ["number"],
+  company: ["applicant", "manufacturer"],
+};
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0 && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        above + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// How well a single query word matches a single column-name word, from 0 (no match) to 1 (exact)
+function wordSimilarity(columnWord: string, queryWord: string): number {
+  if (columnWord === queryWord) return 1;
+  if (SYNONYMS[columnWord]?.includes(queryWord)) return 0.9;
+  if (Math.min(columnWord.length, queryWord.length) >= 4 && editDistance(columnWord, queryWord) <= 1) return 0.8;
+  if (Math.min(columnWord.length, queryWord.length) >= 3 &&
+      (columnWord.startsWith(queryWord) || queryWord.startsWith(columnWord))) return 0.6;
+  return 0;
+}
+
+// Pick the column whose name (or a synonym from the data dictionary) best matches the phrase, or null when
+// nothing matches well enough
+function matchColumn(phrase: string, columns: ColumnSchema[], dictionary: DataDictionary = {}): ColumnSchema | null {
+  const queryWords = toWords(phrase).filter(word => !STOP_WORDS.has(word));
+  const coreWords = queryWords.filter(word => !AGGREGATE_WORDS.has(word));
+  if (coreWords.length === 0) return null;
+
+  let best: { column: ColumnSchema; score: number } | null = null;
+
+  for (const column of columns) {
+    for (const name of [column.name, ...(dictionary[column.name]?.synonyms ?? [])]) {
+      const columnWords = toWords(name);
+      if (columnWords.length === 0) continue;
+
+      const similarity = (words: string[]) => columnWords.reduce(
+        (sum, columnWord) => sum + Math.max(...words.map(queryWord => wordSimilarity(columnWord, queryWord))),
+        0
+      );
+      if (similarity(coreWords) < 0.6) continue;
+
+      const matched = similarity(queryWords);
+
+      // Reward both the amount matched and how much of the column name it covers
+      const score = matched + matched / columnWords.length;
+      if (!best || score > best.score) {
+        best = { column, score };
+      }
+    }
+  }
+
+  return best?.column ?? null;
+}
+
+function isIdentifier(column: ColumnSchema): boolean {
+  const name = column.name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase().replace(/[^a-z0-9]+/g, "_");
+  return IDENTIFIER_PATTERN.test(name);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function toAlias(aggregation: Aggregation, column?: ColumnSchema, rank?: number): string {
+  if (!column) return "record_count";
+  const base = column.name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  const prefix = aggregation === "percentile" ? `p${rank}` : AGGREGATION_ALIASES[aggregation];
+  return `${prefix}_${base || "value"}`;
+}
+
+function toExpression(aggregation: Aggregation, column?: ColumnSchema, rank?: number): string {
+  if (!column) return "COUNT(*)";
+  const name = quoteIdentifier(column.name);
+  if (aggregation === "count_distinct") return `COUNT(DISTINCT ${name})`;
+  if (aggregation === "percentile") return `PERCENTILE(${name}, ${rank})`;
+  return `${aggregation.toUpperCase()}(${name})`;
+}
+
+// The aggregates the question asks for, in the order they're mentioned. Counting wins over everything else,
+// so "total number of brands" is a count rather than a count and a sum.
+function detectAggregations(text: string): Aggregation[] {
+  if (COUNT_PATTERN.test(text)) {
+    return [DISTINCT_PATTERN.test(text) ? "count_distinct" : "count"];
+  }
+
+  const mentioned = (patterns: [Aggregation, RegExp][]) => patterns
+    .map(([aggregation, pattern]) => ({ aggregation, index: text.search(pattern) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ aggregation }) => aggregation);
+
+  const found = mentioned(AGGREGATION_PATTERNS);
+  return found.length > 0 ? found : mentioned(FALLBACK_PATTERNS).slice(0, 1);
+}
+
+export function planQueryOffline(query: string, table: SQLTable): OfflinePlan {
+  const text = ` ${query.toLowerCase().replace(/[?!.]+\s*$/, "").trim()} `;
+
+  // Numeric identifiers - marked "do not aggregate" in the data dictionary or named like keys - are grouped by, never summed
+  const dictionary = table.dictionary ?? {};
+  const numericColumns = table.schema.filter(col =>
+    col.type === "number" && !dictionary[col.name]?.doNotAggregate && !isIdentifier(col)
+  );
+  const categoryColumns = table.schema.filter(col => !numericColumns.includes(col));
+  const dateColumns = table.schema.filter(col => col.type === "date");
+
+  const topMatch = text.match(/\b(top|bottom|highest|lowest|first)\s+(\d+)\b/) ?? text.match(/\b(top|bottom)\b/);
+  const limit = topMatch ? Number(topMatch[2] ?? 10) : null;
+  const ascending = !!topMatch && /^(bottom|lowest)$/.test(topMatch[1]);
+  const overTimeMatch = text.match(OVER_TIME_PATTERN);
+  const overTime = overTimeMatch !== null;
+  const timeUnit = TIME_UNIT_PATTERNS.find(([, pattern]) => pattern.test(overTimeMatch?.[0] ?? ""))?.[0] ?? "month";
+
+  // "highest"/"lowest" in "top 10 ..." describe the ordering, not an aggregate
+  const aggregations = detectAggregations(topMatch ? text.replace(topMatch[0], " ") : text);
+  const percentileMatch = text.match(PERCENTILE_PATTERN);
+  const rank = percentileMatch ? Number(percentileMatch[1] ?? percentileMatch[2]) : undefined;
+  const countsDistinct = aggregations[0] === "count_distinct";
+
+  let measurePhrase = text;
+  let dimensionPhrase = "";
+
+  const split = text.match(GROUP_SPLIT_PATTERN);
+  const countOf = text.match(/\b(?:count of|number of|how many)\s+(.+)$/);
+
+  if (overTime) {
+    measurePhrase = text.replace(OVER_TIME_PATTERN, " ");
+  } else if (topMatch && split && split.index !== undefined) {
+    // "top 10 brands by price" - the ranked thing comes first, the measure after "by"
+    dimensionPhrase = text.slice(0, split.index).replace(topMatch[0], " ");
+    measurePhrase = text.slice(split.index + split[0].length);
+  } else if (split && split.index !== undefined) {
+    // "total cost by indication" - the measure comes first, the grouping after "by"
+    measurePhrase = text.slice(0, split.index);
+    dimensionPhrase = text.slice(split.index + split[0].length);
+  } else if (countOf && countsDistinct) {
+    // "how many distinct substances" - a single number counting the column's values
+    measurePhrase = countOf[1];
+  } else if (countOf) {
+    // "count of indications" / "how many brands"
+    dimensionPhrase = countOf[1];
+    measurePhrase = "";
+  }
+
+  let dimension: ColumnSchema | null = null;
+  if (overTime) {
+    dimension = matchColumn(text, dateColumns, dictionary) ?? dateColumns[0] ?? null;
+    if (!dimension) {
+      return {
+        success: false,
+        error: "This dataset has no date column, so trends over time can't be computed. Try grouping by a category instead.",
+      };
+    }
+  } else if (dimensionPhrase) {
+    dimension = matchColumn(dimensionPhrase, categoryColumns, dictionary) ?? matchColumn(dimensionPhrase, table.schema, dictionary);
+  }
+
+  // Distinct counts work on any column; the other aggregates need a numeric one
+  if (percentileMatch) measurePhrase = measurePhrase.replace(PERCENTILE_PATTERN, " ");
+  const measure = aggregations[0] === "count"
+    ? null
+    : countsDistinct
+    ? matchColumn(measurePhrase, categoryColumns, dictionary) ?? matchColumn(measurePhrase, table.schema, dictionary)
+    : matchColumn(measurePhrase, numericColumns, dictionary);
+
+  if (countsDistinct && !measure) {
+    return {
+      success: false,
+      error: `Couldn't find the column to count distinct values of. Columns in this dataset: ${table.schema.map(col => col.name).join(", ")}.`,
+    };
+  }
+
+  if (aggregations.length > 0 && aggregations[0] !== "count" && !measure) {
+    return {
+      success: false,
+      error: `Couldn't find a numeric column matching your question. Numeric columns in this dataset: ${numericColumns.map(col => col.name).join(", ") || "none"}.`,
+    };
+  }
+
+  // "top 10 brands by price" ranks by a measure, so one that isn't a column is an error rather than a count
+  const rankedBy = topMatch && split && !overTime ? measurePhrase.trim() : "";
+  if (rankedBy && aggregations[0] !== "count" && !measure) {
+    return {
+      success: false,
+      error: `Unknown measure "${rankedBy}". Numeric columns in this dataset: ${numericColumns.map(col => col.name).join(", ") || "none"}.`,
+    };
+  }
+
+  if (aggregations.length === 0) {
+    aggregations.push(measure ? "sum" : "count");
+  }
+
+  if (!dimension && !measure) {
+    // Last resort: a bare category mention like "breakdown of indications"
+    dimension = matchColumn(text, categoryColumns, dictionary);
+    if (!dimension) {
+      const exampleMeasure = numericColumns[0]?.name ?? "value";
+      const exampleCategory = categoryColumns.find(col => col.type !== "date")?.name ?? "category";
+      return {
+        success: false,
+        error: `Couldn't match your question to the columns of this dataset without an LLM provider. Try phrasings like "total ${exampleMeasure} by ${exampleCategory}", "count of ${exampleCategory}" or "top 10 ${exampleCategory} by ${exampleMeasure}".`,
+      };
+    }
+  }
+
+  const measures: Measure[] = aggregations.map(aggregation => ({
+    aggregation,
+    field: measure?.name ?? "",
+    alias: toAlias(aggregation, measure ?? undefined, rank),
+  }));
+  const aggregateExpression = aggregations
+    .map((aggregation, i) => `${toExpression(aggregation, measure ?? undefined, rank)} AS ${measures[i].alias}`)
+    .join(", ");
+  // Results are ranked by the first measure asked for
+  const alias = measures[0].alias;
+
+  let sql: string;
+  if (dimension && overTime) {
+    // Dates are grouped by period; the executor fills in periods without records
+    const column = quoteIdentifier(dimension.name);
+    const period = table.schema.some(col => col.name.toLowerCase() === timeUnit) ? `${timeUnit}_start` : timeUnit;
+    const conditions = [column, ...(measure ? [quoteIdentifier(measure.name)] : [])]
+      .map(name => `${name} IS NOT NULL`)
+      .join(" AND ");
+    sql = `SELECT DATE_TRUNC('${timeUnit}', ${column}) AS ${period}, ${aggregateExpression} FROM ${PRIMARY_TABLE} WHERE ${conditions} GROUP BY ${period} ORDER BY ${period} ASC`;
+  } else if (dimension) {
+    const groupColumn = quoteIdentifier(dimension.name);
+    const orderBy = `${alias} ${ascending ? "ASC" : "DESC"}`;
+    // Skip empty groups and measures so "bottom N" isn't filled with nulls
+    const conditions = [groupColumn, ...(measure ? [quoteIdentifier(measure.name)] : [])]
+      .map(column => `${column} IS NOT NULL`)
+      .join(" AND ");
+    sql = `SELECT ${groupColumn}, ${aggregateExpression} FROM ${PRIMARY_TABLE} WHERE ${conditions} GROUP BY ${groupColumn} ORDER BY ${orderBy} LIMIT ${limit ?? 20}`;
+  } else {
+    sql = `SELECT ${aggregateExpression} FROM ${PRIMARY_TABLE}`;
+  }
+
+  return {
+    success: true,
+    sql,
+    aggregationType: aggregations[0],
+    groupByField: dimension?.name ?? "",
+    aggregateField: measure?.name ?? "",
+    measures,
+    chartType: overTime ? "line" : DISTRIBUTION_PATTERN.test(text) ? "pie" : "bar",
+  };
+}
+
+// Follow-ups ("now only for Oncology", "show that as a pie") are answered by refining the previous turn's SQL
+
+const FOLLOW_UP_PATTERN = /^(now|and|also|instead|then|but|what about|how about|only|just|same|show (that|this|it)|make (that|this|it)|switch|change)\b|\b(that|this|it|same|previous|instead)\b/;
+const CHART_SWITCH_PATTERN = /\b(?:as|to|into|in) an? (pie|bar|line)(?: chart)?\b/i;
+const FILTER_PATTERN = /\b(?:only|just|what about|how about|filtered (?:to|by|on)|restricted to|limited to)\s+(?:(?:for|in|to|the|with)\s+)*(.+)$/i;
+
+const parser = new Parser();
+
+// Find the categorical column holding a value like the phrase - exact matches win over partial ones
+function findValue(phrase: string, table: SQLTable): { column: string; value: string; exact: boolean } | null {
+  const needle = phrase.trim().toLowerCase();
+  if (needle.length === 0) return null;
+
+  let partial: { column: string; value: string; exact: boolean; matches: number } | null = null;
+
+  for (const column of table.schema.filter(col => col.type !== "number")) {
+    const values = new Set(
+      table.rows.map(row => row[column.name]).filter(value => value !== null && value !== undefined).map(String)
+    );
+
+    const exact = [...values].find(value => value.trim().toLowerCase() === needle);
+    if (exact) return { column: column.name, value: exact, exact: true };
+
+    const matches = [...values].filter(value => value.toLowerCase().includes(needle)).length;
+    if (needle.length >= 3 && matches > 0 && (!partial || matches > partial.matches)) {
+      partial = { column: column.name, value: phrase.trim(), exact: false, matches };
+    }
+  }
+
+  return partial;
+}
+
+function splitAnd(node: any): any[] {
+  if (!node) return [];
+  if (node.type === "binary_expr" && node.operator === "AND" && !node.parentheses) {
+    return [...splitAnd(node.left), ...splitAnd(node.right)];
+  }
+  return [node];
+}
+
+function columnName(node: any): string | null {
+  if (node?.type === "column_ref") return String(node.column);
+  if (node?.type === "double_quote_string") return String(node.value);
+  return null;
+}
+
+// Add `column = value` (or LIKE for partial matches) to the SQL's WHERE clause, replacing an earlier filter on the same column
+function addFilter(sql: string, filter: { column: string; value: string; exact: boolean }): string {
+  const ast: any = parser.astify(sql, { database: "sqlite" });
+  if (Array.isArray(ast) || ast.type !== "select") {
+    throw new Error("The previous query can't be refined automatically");
+  }
+
+  const primary = (ast.from ?? []).find((entry: any) => entry.table === PRIMARY_TABLE);
+  if (!primary) {
+    throw new Error("The previous query doesn't read the primary dataset");
+  }
+  const qualifier = primary.as ?? (ast.from.length > 1 ? PRIMARY_TABLE : null);
+
+  const conditions = splitAnd(ast.where).filter(condition =>
+    !(condition.type === "binary_expr" && ["=", "LIKE"].includes(condition.operator) &&
+      columnName(condition.left) === filter.column)
+  );
+  conditions.push({
+    type: "binary_expr",
+    operator: filter.exact ? "=" : "LIKE",
+    left: { type: "column_ref", table: qualifier, column: filter.column },
+    // The SQL generator doesn't escape literals, so double any quotes here
+    right: { type: "single_quote_string", value: (filter.exact ? filter.value : `%${filter.value}%`).replace(/'/g, "''") },
+  });
+
+  ast.where = conditions
+    .map(condition => (condition.type === "binary_expr" && condition.operator === "OR" ? { ...condition, parentheses: true } : condition))
+    .reduce((left, right) => ({ type: "binary_expr", operator: "AND", left, right }));
+
+  return parser.sqlify(ast, { database: "sqlite" });
+}
+
+// The measure an aggregate column computes, or null for columns that aren't aggregates
+function toMeasure(column: any): Measure | null {
+  const expr = column?.expr;
+  if (expr?.type === "aggr_func") {
+    const name = String(expr.name).toLowerCase();
+    return {
+      aggregation: name === "count" && expr.args?.distinct ? "count_distinct" : name,
+      field: columnName(expr.args?.expr) ?? "",
+      alias: typeof column.as === "string" ? column.as : "",
+    };
+  }
+
+  const name = expr?.type === "function" ? String(expr.name?.name?.[0]?.value ?? expr.name).toUpperCase() : "";
+  if (!CUSTOM_AGGREGATES.includes(name)) return null;
+  return {
+    aggregation: name.toLowerCase(),
+    field: columnName(expr.args?.value?.[0]) ?? "",
+    alias: typeof column.as === "string" ? column.as : "",
+  };
+}
+
+// Recover the grouping and aggregates of an existing query, e.g. to carry them over to a refined plan
+export function describeSQL(sql: string): Pick<OfflinePlan, "aggregationType" | "groupByField" | "aggregateField" | "measures"> {
+  const ast: any = parser.astify(sql, { database: "sqlite" });
+  const select = Array.isArray(ast) ? ast[0] : ast;
+  const measures = (select?.columns ?? []).map(toMeasure).filter((measure: Measure | null): measure is Measure => measure !== null);
+
+  return {
+    aggregationType: measures[0]?.aggregation ?? "",
+    groupByField: columnName(select?.groupby?.columns?.[0] ?? select?.groupby?.[0]) ?? "",
+    aggregateField: measures[0]?.field ?? "",
+    measures,
+  };
+}
+
+// Returns null when the question doesn't look like a follow-up, so it can be planned from scratch
+export function refineQueryOffline(
+  query: string,
+  previous: { sql: string; chartType?: "bar" | "line" | "pie" },
+  table: SQLTable
+): OfflinePlan | null {
+  // Keep the original casing so values are reported back as the user typed them
+  const text = query.replace(/[?!.]+\s*$/, "").trim();
+  if (!FOLLOW_UP_PATTERN.test(text.toLowerCase())) return null;
+
+  const chartSwitch = text.match(CHART_SWITCH_PATTERN);
+  const filterMatch = text.replace(CHART_SWITCH_PATTERN, " ").match(FILTER_PATTERN);
+  if (!chartSwitch && !filterMatch) return null;
+
+  try {
+    let sql = previous.sql;
+    if (filterMatch) {
+      const filter = findValue(filterMatch[1].trim(), table);
+      if (!filter) {
+        return {
+          success: false,
+          error: `Couldn't find "${filterMatch[1].trim()}" in any column of this dataset to narrow the previous result.`,
+        };
+      }
+      sql = addFilter(sql, filter);
+    }
+
+    return {
+      success: true,
+      sql,
+      ...describeSQL(sql),
+      chartType: (chartSwitch?.[1].toLowerCase() as OfflinePlan["chartType"]) ?? previous.chartType ?? "bar",
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Couldn't refine the previous query: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+}
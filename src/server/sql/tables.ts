@@ -0,0 +1,103 @@
+import { type NumberFormat } from "@/lib/column-profile";
+import { type DataDictionary } from "@/lib/data-dictionary";
+
+// Describes the set of datasets a query can read, and how they relate to each other.
+// The primary dataset is always exposed as "dataset"; additional datasets get a table name derived from their name.
+
+export type ColumnSchema = {
+  name: string;
+  type: string;
+  sample?: string;
+  nullable?: boolean;
+  numberFormat?: NumberFormat; // How numeric strings are written, used when loading them into the engine
+};
+
+export type SQLTable = {
+  name: string;
+  label: string;
+  rows: Record<string, any>[];
+  schema: ColumnSchema[];
+  dictionary?: DataDictionary; // The dataset's column descriptions, for the prompts and the offline planner
+  datasetId?: string; // Stored dataset the rows come from, so anything cached from them can be dropped when it is deleted
+};
+
+export type JoinKey = {
+  leftTable: string;
+  rightTable: string;
+  column: string;
+  rightColumn: string;
+  matchRatio: number;
+  matchedValues: number;
+};
+
+export const PRIMARY_TABLE = "dataset";
+
+// Turn a dataset name into a safe, readable SQL table name that doesn't collide with existing ones
+export function toTableName(label: string, taken: string[]): string {
+  const base = label
+    .replace(/\.[a-z0-9]+$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^(\d)/, "t_$1") || "table";
+
+  let name = base;
+  let suffix = 2;
+  while (taken.includes(name)) {
+    name = `${base}_${suffix++}`;
+  }
+  return name;
+}
+
+function distinctValues(rows: Record<string, any>[], column: string): Set<string> {
+  const values = new Set<string>();
+  rows.forEach(row => {
+    const value = row[column];
+    if (value !== null && value !== undefined && String(value).trim() !== "") {
+      values.add(String(value).trim().toLowerCase());
+    }
+  });
+  return values;
+}
+
+// Find columns shared between the primary table and each additional table whose values actually overlap
+export function detectJoinKeys(tables: SQLTable[], minMatchRatio = 0.2): JoinKey[] {
+  const [primary, ...others] = tables;
+  if (!primary) return [];
+
+  const keys: JoinKey[] = [];
+
+  others.forEach(other => {
+    primary.schema.forEach(leftCol => {
+      // Numeric measures rarely make sense as join keys even when names match
+      if (leftCol.type === "number") return;
+
+      const rightCol = other.schema.find(col => col.name.toLowerCase() === leftCol.name.toLowerCase());
+      if (!rightCol) return;
+
+      const leftValues = distinctValues(primary.rows, leftCol.name);
+      const rightValues = distinctValues(other.rows, rightCol.name);
+      if (leftValues.size === 0 || rightValues.size === 0) return;
+
+      let matches = 0;
+      rightValues.forEach(value => {
+        if (leftValues.has(value)) matches++;
+      });
+      const matchRatio = matches / Math.min(leftValues.size, rightValues.size);
+
+      if (matchRatio >= minMatchRatio) {
+        keys.push({
+          leftTable: primary.name,
+          rightTable: other.name,
+          column: leftCol.name,
+          rightColumn: rightCol.name,
+          matchRatio,
+          matchedValues: matches,
+        });
+      }
+    });
+  });
+
+  // Prefer keys that match many distinct values - a column with one shared value is a poor join key
+  return keys.sort((a, b) => b.matchedValues - a.matchedValues || b.matchRatio - a.matchRatio);
+}
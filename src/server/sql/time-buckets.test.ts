@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { fillTimeGaps, findTimeBucket, truncateDate, type TimeBucket } from "@/server/sql/time-buckets";
+
+const monthly: TimeBucket = { column: "month", field: "launch_date", unit: "month", descending: false };
+
+describe("truncateDate", () => {
+  it.each([
+    ["day", "2024-05-17"],
+    ["week", "2024-05-13"],
+    ["month", "2024-05-01"],
+    ["quarter", "2024-04-01"],
+    ["year", "2024-01-01"],
+  ] as const)("maps a date to the start of its %s", (unit, expected) => {
+    expect(truncateDate("2024-05-17", unit)).toBe(expected);
+  });
+
+  it("returns null for values that aren't dates", () => {
+    expect(truncateDate("not a date", "month")).toBeNull();
+    expect(truncateDate(42, "month")).toBeNull();
+  });
+});
+
+describe("findTimeBucket", () => {
+  it("finds a single DATE_TRUNC grouping", () => {
+    expect(findTimeBucket("SELECT DATE_TRUNC('month', launch_date) AS month, COUNT(*) AS n FROM dataset GROUP BY month ORDER BY month DESC"))
+      .toEqual({ column: "month", field: "launch_date", unit: "month", descending: true });
+  });
+
+  it("ignores queries with a LIMIT or a second grouping", () => {
+    expect(findTimeBucket("SELECT DATE_TRUNC('month', launch_date) AS month, COUNT(*) FROM dataset GROUP BY month LIMIT 5")).toBeNull();
+    expect(findTimeBucket("SELECT DATE_TRUNC('month', launch_date) AS month, brand_name, COUNT(*) FROM dataset GROUP BY month, brand_name")).toBeNull();
+  });
+});
+
+describe("fillTimeGaps", () => {
+  it("adds zero rows for missing periods in time order", () => {
+    const { rows, filled } = fillTimeGaps([
+      { month: "2024-03-01", n: 2, label: "x" },
+      { month: "2024-01-01", n: 5, label: "y" },
+    ], monthly);
+
+    expect(filled).toBe(1);
+    expect(rows).toEqual([
+      { month: "2024-01-01", n: 5, label: "y" },
+      { month: "2024-02-01", n: 0, label: null },
+      { month: "2024-03-01", n: 2, label: "x" },
+    ]);
+  });
+
+  it("keeps descending order and puts rows without a period last", () => {
+    const { rows } = fillTimeGaps([
+      { month: null, n: 1 },
+      { month: "2024-03-01", n: 2 },
+      { month: "2024-01-01", n: 5 },
+    ], { ...monthly, descending: true });
+
+    expect(rows.map(row => row.month)).toEqual(["2024-03-01", "2024-02-01", "2024-01-01", null]);
+  });
+
+  it("crosses year boundaries by quarter", () => {
+    const { rows, filled } = fillTimeGaps([
+      { quarter: "2023-10-01", n: 1 },
+      { quarter: "2024-07-01", n: 1 },
+    ], { column: "quarter", field: "d", unit: "quarter", descending: false });
+
+    expect(filled).toBe(2);
+    expect(rows.map(row => row.quarter)).toEqual(["2023-10-01", "2024-01-01", "2024-04-01", "2024-07-01"]);
+  });
+
+  it("leaves long ranges unfilled", () => {
+    const rows = [{ day: "2000-01-01", n: 1 }, { day: "2024-01-01", n: 1 }];
+    expect(fillTimeGaps(rows, { column: "day", field: "d", unit: "day", descending: false })).toEqual({ rows, filled: 0 });
+  });
+
+  it("returns rows unchanged when none has a period", () => {
+    const rows = [{ month: null, n: 1 }];
+    expect(fillTimeGaps(rows, monthly)).toEqual({ rows, filled: 0 });
+  });
+});
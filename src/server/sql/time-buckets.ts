@@ -0,0 +1,132 @@
+import { Parser } from "node-sql-parser";
+import { toISODate } from "@/lib/column-profile";
+
+// Grouping dates by period. DATE_TRUNC(unit, date) is registered on the query engine and maps a date to the
+// first day of its day/week/month/quarter/year (weeks start on Monday), as an ISO date that sorts by time.
+// Results grouped by a single bucket then get the periods with no rows filled in with zeros, in time order.
+
+export const TIME_UNITS = ["day", "week", "month", "quarter", "year"] as const;
+
+export type TimeUnit = (typeof TIME_UNITS)[number];
+
+// Filling daily buckets across decades would swamp the chart, so long ranges are left as they are
+const MAX_FILLED_PERIODS = 1000;
+
+const parser = new Parser();
+
+export function isTimeUnit(value: unknown): value is TimeUnit {
+  return typeof value === "string" && (TIME_UNITS as readonly string[]).includes(value.toLowerCase());
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+// First day of the period the value falls in, or null when it isn't a date
+export function truncateDate(value: unknown, unit: TimeUnit): string | null {
+  const iso = typeof value === "string" ? toISODate(value) : null;
+  if (!iso) return null;
+
+  const [year, month, day] = iso.substring(0, 10).split("-").map(Number);
+  if (unit === "year") return `${year}-01-01`;
+  if (unit === "quarter") return `${year}-${String(Math.floor((month - 1) / 3) * 3 + 1).padStart(2, "0")}-01`;
+  if (unit === "month") return `${year}-${String(month).padStart(2, "0")}-01`;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (unit === "week") date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return toDateString(date);
+}
+
+function nextPeriod(period: string, unit: TimeUnit): string {
+  const [year, month, day] = period.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (unit === "day") date.setUTCDate(date.getUTCDate() + 1);
+  if (unit === "week") date.setUTCDate(date.getUTCDate() + 7);
+  if (unit === "month") date.setUTCMonth(date.getUTCMonth() + 1);
+  if (unit === "quarter") date.setUTCMonth(date.getUTCMonth() + 3);
+  if (unit === "year") date.setUTCFullYear(date.getUTCFullYear() + 1);
+  return toDateString(date);
+}
+
+export type TimeBucket = {
+  column: string; // Result column holding the period
+  field: string; // Date column that was bucketed
+  unit: TimeUnit;
+  descending: boolean;
+};
+
+function columnName(node: any): string | null {
+  if (node?.type === "column_ref") return typeof node.column === "string" ? node.column : node.column?.expr?.value ?? null;
+  if (node?.type === "double_quote_string") return String(node.value);
+  return null;
+}
+
+function isDateTrunc(node: any): boolean {
+  const name = node?.type === "function" ? String(node.name?.name?.[0]?.value ?? node.name).toUpperCase() : "";
+  return name === "DATE_TRUNC" && isTimeUnit(node.args?.value?.[0]?.value);
+}
+
+// The DATE_TRUNC bucket a query groups by, when it is the only grouping and the rows are ordered by period
+// (or not at all) with no LIMIT, so periods can be added without changing what was asked for
+export function findTimeBucket(sql: string): TimeBucket | null {
+  let ast: any;
+  try {
+    ast = parser.astify(sql, { database: "sqlite" });
+  } catch {
+    return null;
+  }
+  const select = Array.isArray(ast) ? ast[0] : ast;
+  if (select?.type !== "select" || select.limit?.value?.length) return null;
+
+  const groupBy = select.groupby?.columns ?? select.groupby ?? [];
+  if (groupBy.length !== 1) return null;
+
+  const bucketColumn = (select.columns ?? []).find((column: any) => isDateTrunc(column.expr));
+  const column = typeof bucketColumn?.as === "string" ? bucketColumn.as : null;
+  if (!column) return null;
+
+  const [unitArg, fieldArg] = bucketColumn.expr.args.value;
+  const isBucket = (node: any) => columnName(node) === column || isDateTrunc(node);
+  if (!isBucket(groupBy[0])) return null;
+
+  const orderBy: any[] = select.orderby ?? [];
+  if (!orderBy.every(item => isBucket(item.expr))) return null;
+
+  return {
+    column,
+    field: columnName(fieldArg) ?? "",
+    unit: String(unitArg.value).toLowerCase() as TimeUnit,
+    descending: orderBy[0]?.type === "DESC",
+  };
+}
+
+// Add a zero row for every missing period between the first and last one, keeping the rows in period order
+export function fillTimeGaps(rows: Record<string, any>[], bucket: TimeBucket): { rows: Record<string, any>[]; filled: number } {
+  const dated = rows.filter(row => typeof row[bucket.column] === "string");
+  const undated = rows.filter(row => typeof row[bucket.column] !== "string");
+  if (dated.length === 0) return { rows, filled: 0 };
+
+  const periods = new Set(dated.map(row => row[bucket.column] as string));
+  const sorted = [...periods].sort();
+  const measures = Object.keys(dated[0]).filter(key => key !== bucket.column && typeof dated[0][key] === "number");
+
+  const missing: Record<string, any>[] = [];
+  let count = 0;
+  for (let period = sorted[0]; period < sorted[sorted.length - 1]; period = nextPeriod(period, bucket.unit)) {
+    if (++count > MAX_FILLED_PERIODS) {
+      missing.length = 0;
+      break;
+    }
+    if (periods.has(period)) continue;
+
+    const row: Record<string, any> = {};
+    Object.keys(dated[0]).forEach(key => {
+      row[key] = key === bucket.column ? period : measures.includes(key) ? 0 : null;
+    });
+    missing.push(row);
+  }
+
+  const ordered = [...dated, ...missing].sort((a, b) => a[bucket.column].localeCompare(b[bucket.column]));
+  if (bucket.descending) ordered.reverse();
+  return { rows: [...ordered, ...undated], filled: missing.length };
+}
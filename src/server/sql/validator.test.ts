@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { validateSQL } from "@/server/sql/validator";
+
+const tables = [
+  {
+    name: "dataset",
+    schema: [
+      { name: "brand_name", type: "string" },
+      { name: "indication", type: "string" },
+      { name: "yearly_cost", type: "number" },
+      { name: "launch_date", type: "date" },
+    ],
+  },
+  {
+    name: "prices",
+    schema: [
+      { name: "brand_name", type: "string" },
+      { name: "list_price", type: "number" },
+    ],
+  },
+];
+
+function errorCode(sql: string) {
+  return validateSQL(sql, tables).error?.code;
+}
+
+describe("validateSQL", () => {
+  it("accepts a read-only SELECT over the loaded tables", () => {
+    const result = validateSQL("SELECT brand_name, SUM(yearly_cost) AS total FROM dataset GROUP BY brand_name ORDER BY total DESC", tables);
+    expect(result.success).toBe(true);
+    expect(result.error).toBeUndefined();
+  });
+
+  it("accepts joins, CTEs and aliases defined in the statement", () => {
+    const sql = `
+      WITH costs AS (SELECT brand_name, AVG(yearly_cost) AS avg_cost FROM dataset GROUP BY brand_name)
+      SELECT c.brand_name, c.avg_cost, p.list_price
+      FROM costs c JOIN prices p ON p.brand_name = c.brand_name`;
+    expect(validateSQL(sql, tables).success).toBe(true);
+  });
+
+  it("accepts the engine's own aggregates and DATE_TRUNC", () => {
+    expect(validateSQL("SELECT MEDIAN(yearly_cost), PERCENTILE(yearly_cost, 90) FROM dataset", tables).success).toBe(true);
+    expect(validateSQL("SELECT DATE_TRUNC('month', launch_date) AS month, COUNT(*) FROM dataset GROUP BY month", tables).success).toBe(true);
+  });
+
+  it("accepts EXISTS and NOT EXISTS subqueries", () => {
+    expect(validateSQL("SELECT brand_name FROM dataset d WHERE EXISTS (SELECT 1 FROM prices p WHERE p.brand_name = d.brand_name)", tables).success).toBe(true);
+    expect(validateSQL("SELECT brand_name FROM dataset d WHERE NOT EXISTS (SELECT 1 FROM prices p WHERE p.brand_name = d.brand_name)", tables).success).toBe(true);
+  });
+
+  it("still checks the tables read inside an EXISTS subquery", () => {
+    expect(errorCode("SELECT brand_name FROM dataset WHERE EXISTS (SELECT 1 FROM secrets)")).toBe("unknown_table");
+  });
+
+  it.each([
+    ["INSERT INTO dataset (brand_name) VALUES ('x')"],
+    ["UPDATE dataset SET yearly_cost = 0"],
+    ["DELETE FROM dataset"],
+    ["DROP TABLE dataset"],
+    ["CREATE TABLE copy (a TEXT)"],
+  ])("rejects writes: %s", (sql) => {
+    const result = validateSQL(sql, tables);
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("not_select");
+    expect(result.error?.message).toContain("Only read-only SELECT queries");
+  });
+
+  it("rejects more than one statement", () => {
+    const result = validateSQL("SELECT * FROM dataset; DELETE FROM dataset", tables);
+    expect(result.error?.code).toBe("multiple_statements");
+    expect(result.error?.token).toBe(";");
+  });
+
+  it("rejects unknown tables with their position", () => {
+    const result = validateSQL("SELECT *\nFROM users", tables);
+    expect(result.error?.code).toBe("unknown_table");
+    expect(result.error?.token).toBe("users");
+    expect(result.error?.position?.line).toBe(2);
+    expect(result.error?.message).toContain('Queries may only read from "dataset", "prices"');
+  });
+
+  it("rejects unknown columns", () => {
+    const result = validateSQL("SELECT price FROM dataset", tables);
+    expect(result.error?.code).toBe("unknown_column");
+    expect(result.error?.token).toBe("price");
+  });
+
+  it("rejects a column qualified with a table that doesn't have it", () => {
+    const result = validateSQL("SELECT p.yearly_cost FROM prices p", tables);
+    expect(result.error?.code).toBe("unknown_column");
+    expect(result.error?.message).toContain('Table "prices" has no column "yearly_cost"');
+  });
+
+  it("rejects unknown table qualifiers", () => {
+    expect(errorCode("SELECT x.brand_name FROM dataset")).toBe("unknown_table");
+  });
+
+  it.each([
+    ["SELECT LOAD_EXTENSION('evil') FROM dataset", "LOAD_EXTENSION"],
+    ["SELECT RANDOMBLOB(10) FROM dataset", "RANDOMBLOB"],
+    ["SELECT brand_name FROM dataset WHERE SQLITE_VERSION() > '3'", "SQLITE_VERSION"],
+  ])("rejects functions outside the allow-list: %s", (sql, name) => {
+    const result = validateSQL(sql, tables);
+    expect(result.error?.code).toBe("function_not_allowed");
+    expect(result.error?.message).toContain(`${name}()`);
+  });
+
+  it("reports syntax errors with the offending token", () => {
+    const result = validateSQL("SELECT brand_name FROM dataset WHERE", tables);
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("syntax");
+  });
+});
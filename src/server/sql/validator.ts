@@ -0,0 +1,283 @@
+import { Parser, type AST } from "node-sql-parser";
+import { type ColumnSchema } from "@/server/sql/tables";
+import { CUSTOM_AGGREGATES, CUSTOM_FUNCTIONS } from "@/server/sql/engine";
+
+// Parses LLM-generated SQL into an AST and checks it against an allow-list before it reaches the engine:
+// a single read-only SELECT, only the loaded dataset tables, only known columns and only whitelisted functions.
+
+export type SQLTokenPosition = {
+  offset: number;
+  line: number;
+  column: number;
+};
+
+export type SQLValidationError = {
+  code: "syntax" | "multiple_statements" | "not_select" | "unknown_table" | "unknown_column" | "function_not_allowed";
+  message: string;
+  token?: string;
+  position?: SQLTokenPosition;
+};
+
+const ALLOWED_FUNCTIONS = new Set([
+  // Aggregates
+  "COUNT", "SUM", "AVG", "MIN", "MAX", "TOTAL", "GROUP_CONCAT",
+  // Statistical aggregates registered by the engine (MEDIAN, PERCENTILE, STDDEV, ...)
+  ...CUSTOM_AGGREGATES,
+  // Window functions
+  "ROW_NUMBER", "RANK", "DENSE_RANK", "PERCENT_RANK", "CUME_DIST", "NTILE", "LAG", "LEAD", "FIRST_VALUE", "LAST_VALUE",
+  // Scalar functions
+  "ABS", "ROUND", "COALESCE", "IFNULL", "NULLIF", "IIF", "LOWER", "UPPER", "LENGTH", "TRIM", "LTRIM", "RTRIM",
+  "SUBSTR", "SUBSTRING", "REPLACE", "INSTR", "PRINTF", "TYPEOF",
+  // Date functions
+  "DATE", "TIME", "DATETIME", "JULIANDAY", "STRFTIME",
+  // Scalar functions registered by the engine (DATE_TRUNC)
+  ...CUSTOM_FUNCTIONS,
+  // EXISTS (subquery) is parsed as a function call; the subquery itself is checked like any other SELECT
+  "EXISTS",
+]);
+
+// Statement types that must never appear anywhere in the tree, including inside subqueries or CTEs
+const WRITE_STATEMENTS = new Set([
+  "insert", "replace", "update", "delete", "create", "drop", "alter", "truncate", "rename", "attach", "detach", "pragma",
+]);
+
+const parser = new Parser();
+
+// Locate the first occurrence of an identifier in the SQL text (outside string literals)
+function findTokenPosition(sql: string, token: string): SQLTokenPosition | undefined {
+  const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`'(?:[^']|'')*'|(["\`]?)\\b${escaped}\\b\\1`, "gi");
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sql)) !== null) {
+    if (match[0].startsWith("'")) continue;
+    return offsetToPosition(sql, match.index);
+  }
+  return undefined;
+}
+
+function offsetToPosition(sql: string, offset: number): SQLTokenPosition {
+  const before = sql.slice(0, offset).split("\n");
+  return {
+    offset,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+function describePosition(position?: SQLTokenPosition): string {
+  return position ? ` (line ${position.line}, column ${position.column})` : "";
+}
+
+function getFunctionName(node: any): string {
+  if (typeof node.name === "string") return node.name;
+  return node.name?.name?.map((part: any) => part.value).join(".") ?? "";
+}
+
+type AllowList = {
+  // Real dataset tables and the columns each one has
+  datasets: Map<string, Set<string>>;
+  // Every name usable as a table reference: datasets, CTEs and aliases (alias -> dataset it points to, if any)
+  tables: Map<string, string | null>;
+  // Every name usable as a column reference: dataset columns plus aliases defined in the statement
+  columns: Set<string>;
+};
+
+// First pass: collect names introduced by the statement itself (CTEs, table aliases, column aliases)
+function collectAliases(node: any, allowed: AllowList) {
+  if (!node || typeof node !== "object") return;
+  if (Array.isArray(node)) {
+    node.forEach(child => collectAliases(child, allowed));
+    return;
+  }
+
+  if (Array.isArray(node.with)) {
+    node.with.forEach((cte: any) => {
+      const name = cte.name?.value ?? cte.name;
+      if (typeof name === "string") allowed.tables.set(name.toLowerCase(), null);
+      cte.columns?.forEach((col: any) => allowed.columns.add(String(col.value ?? col).toLowerCase()));
+    });
+  }
+  if (Array.isArray(node.from)) {
+    node.from.forEach((item: any) => {
+      if (typeof item.as !== "string") return;
+      const target = typeof item.table === "string" ? item.table.toLowerCase() : null;
+      allowed.tables.set(item.as.toLowerCase(), target && allowed.datasets.has(target) ? target : null);
+    });
+  }
+  if (Array.isArray(node.columns)) {
+    node.columns.forEach((item: any) => {
+      if (typeof item?.as === "string") allowed.columns.add(item.as.toLowerCase());
+    });
+  }
+
+  Object.values(node).forEach(child => collectAliases(child, allowed));
+}
+
+// Second pass: reject anything outside the allow-list
+function checkNode(node: any, sql: string, allowed: AllowList): SQLValidationError | null {
+  if (!node || typeof node !== "object") return null;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const error = checkNode(child, sql, allowed);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (typeof node.type === "string" && WRITE_STATEMENTS.has(node.type)) {
+    return {
+      code: "not_select",
+      message: `${node.type.toUpperCase()} statements are not allowed. Only read-only SELECT queries can be executed.`,
+      token: node.type.toUpperCase(),
+      position: findTokenPosition(sql, node.type),
+    };
+  }
+
+  if (Array.isArray(node.from)) {
+    for (const item of node.from) {
+      if (typeof item.table === "string" && !allowed.tables.has(item.table.toLowerCase())) {
+        const position = item.loc?.start ?? findTokenPosition(sql, item.table);
+        return {
+          code: "unknown_table",
+          message: `Unknown table "${item.table}"${describePosition(position)}. Queries may only read from ${[...allowed.datasets.keys()].map(t => `"${t}"`).join(", ")}.`,
+          token: item.table,
+          position,
+        };
+      }
+    }
+  }
+
+  if (node.type === "column_ref" || node.type === "double_quote_string") {
+    const column = node.type === "column_ref" ? node.column : node.value;
+    const name = typeof column === "string" ? column : column?.expr?.value;
+
+    if (typeof name === "string" && name !== "*" && !allowed.columns.has(name.toLowerCase())) {
+      const position = node.loc?.start ?? findTokenPosition(sql, name);
+      return {
+        code: "unknown_column",
+        message: `Unknown column "${name}"${describePosition(position)}. Use one of the dataset columns.`,
+        token: name,
+        position,
+      };
+    }
+
+    if (node.type === "column_ref" && typeof node.table === "string") {
+      const qualifier = node.table.toLowerCase();
+      if (!allowed.tables.has(qualifier)) {
+        const position = node.loc?.start ?? findTokenPosition(sql, node.table);
+        return {
+          code: "unknown_table",
+          message: `Unknown table reference "${node.table}"${describePosition(position)}.`,
+          token: node.table,
+          position,
+        };
+      }
+
+      // A qualified reference to a real dataset must name one of that dataset's own columns
+      const target = allowed.tables.get(qualifier);
+      const targetColumns = target ? allowed.datasets.get(target) : undefined;
+      if (targetColumns && typeof name === "string" && name !== "*" && !targetColumns.has(name.toLowerCase())) {
+        const position = node.loc?.start ?? findTokenPosition(sql, name);
+        return {
+          code: "unknown_column",
+          message: `Table "${target}" has no column "${name}"${describePosition(position)}.`,
+          token: name,
+          position,
+        };
+      }
+    }
+  }
+
+  if (node.type === "function" || node.type === "aggr_func") {
+    const name = getFunctionName(node);
+    if (!ALLOWED_FUNCTIONS.has(name.toUpperCase())) {
+      const position = node.loc?.start ?? findTokenPosition(sql, name);
+      return {
+        code: "function_not_allowed",
+        message: `Function ${name.toUpperCase()}()${describePosition(position)} is not allowed in generated queries.`,
+        token: name,
+        position,
+      };
+    }
+  }
+
+  for (const child of Object.values(node)) {
+    const error = checkNode(child, sql, allowed);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Validate a SQL statement against the schemas of the tables it is allowed to read
+export function validateSQL(sql: string, tables: { name: string; schema: ColumnSchema[] }[]): {
+  success: boolean;
+  ast?: AST;
+  error?: SQLValidationError;
+} {
+  let parsed: AST | AST[];
+  try {
+    parsed = parser.astify(sql, { database: "sqlite", parseOptions: { includeLocations: true } });
+  } catch (error: any) {
+    const position: SQLTokenPosition | undefined = error?.location?.start;
+    const token = typeof error?.found === "string" ? error.found : undefined;
+    return {
+      success: false,
+      error: {
+        code: "syntax",
+        message: token
+          ? `Syntax error near "${token}"${describePosition(position)}.`
+          : `Syntax error${describePosition(position)}: unexpected end of query.`,
+        token,
+        position,
+      },
+    };
+  }
+
+  const statements = Array.isArray(parsed) ? parsed : [parsed];
+
+  if (statements.length !== 1) {
+    const separator = sql.indexOf(";");
+    const position = separator >= 0 ? offsetToPosition(sql, separator) : undefined;
+    return {
+      success: false,
+      error: {
+        code: "multiple_statements",
+        message: `Only a single SQL statement can be executed, but ${statements.length} were found.`,
+        token: ";",
+        position,
+      },
+    };
+  }
+
+  const ast = statements[0];
+  if (ast.type !== "select") {
+    return {
+      success: false,
+      error: {
+        code: "not_select",
+        message: `${ast.type.toUpperCase()} statements are not allowed. Only read-only SELECT queries can be executed.`,
+        token: ast.type.toUpperCase(),
+        position: findTokenPosition(sql, ast.type),
+      },
+    };
+  }
+
+  const datasets = new Map(tables.map(table => [
+    table.name.toLowerCase(),
+    new Set(table.schema.map(col => col.name.toLowerCase())),
+  ]));
+  const allowed: AllowList = {
+    datasets,
+    tables: new Map([...datasets.keys()].map(name => [name, name])),
+    columns: new Set(tables.flatMap(table => table.schema.map(col => col.name.toLowerCase()))),
+  };
+  collectAliases(ast, allowed);
+
+  const error = checkNode(ast, sql, allowed);
+  if (error) {
+    return { success: false, error };
+  }
+
+  return { success: true, ast };
+}
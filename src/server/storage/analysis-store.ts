@@ -0,0 +1,39 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { type SavedAnalysis } from "@/lib/saved-analysis";
+
+// Saved analyses behind permalinks, one JSON file each under data/analyses
+
+const ANALYSES_DIR = path.join(process.cwd(), "data", "analyses");
+
+// IDs come from URLs, so only ever read names this module could have generated (UUIDs, or the shorter
+// base-36 IDs of analyses saved before)
+const ID_PATTERN = /^[a-z0-9-]+$/;
+
+function analysisFile(id: string): string {
+  return path.join(ANALYSES_DIR, `${id}.json`);
+}
+
+export async function saveAnalysis(input: Omit<SavedAnalysis, "id" | "savedAt">): Promise<SavedAnalysis> {
+  const analysis: SavedAnalysis = {
+    ...input,
+    // Unguessable, since anyone with the ID can open the analysis
+    id: randomUUID(),
+    savedAt: new Date().toISOString(),
+  };
+  await fs.mkdir(ANALYSES_DIR, { recursive: true });
+  await fs.writeFile(analysisFile(analysis.id), JSON.stringify(analysis, null, 2), "utf-8");
+  return analysis;
+}
+
+export async function getAnalysis(id: string): Promise<SavedAnalysis | null> {
+  if (!ID_PATTERN.test(id)) return null;
+
+  try {
+    const content = await fs.readFile(analysisFile(id), "utf-8");
+    return JSON.parse(content) as SavedAnalysis;
+  } catch {
+    return null;
+  }
+}
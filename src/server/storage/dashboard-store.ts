@@ -0,0 +1,99 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { clampLayout, DEFAULT_TILE_LAYOUT, type DashboardTile, type TileLayout } from "@/lib/dashboard";
+
+// The dashboard's pinned tiles, kept in order in data/dashboard.json
+
+const DASHBOARD_FILE = path.join(process.cwd(), "data", "dashboard.json");
+
+export async function listTiles(): Promise<DashboardTile[]> {
+  try {
+    const content = await fs.readFile(DASHBOARD_FILE, "utf-8");
+    return (JSON.parse(content) as { tiles: DashboardTile[] }).tiles;
+  } catch {
+    return [];
+  }
+}
+
+async function saveTiles(tiles: DashboardTile[]): Promise<void> {
+  await fs.mkdir(path.dirname(DASHBOARD_FILE), { recursive: true });
+  // Write to a temporary file first so a reader never sees a half-written dashboard
+  const tempPath = `${DASHBOARD_FILE}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify({ tiles }, null, 2), "utf-8");
+  await fs.rename(tempPath, DASHBOARD_FILE);
+}
+
+// Changes read, modify and write the whole file, so they run one at a time; otherwise two concurrent changes
+// would both start from the same tiles and the later write would drop the other's change
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+function withDashboardLock<T>(change: () => Promise<T>): Promise<T> {
+  const result = pendingChange.then(change);
+  pendingChange = result.catch(() => undefined);
+  return result;
+}
+
+export async function getTile(id: string): Promise<DashboardTile | null> {
+  return (await listTiles()).find(tile => tile.id === id) ?? null;
+}
+
+// New tiles go at the end of the grid
+export async function addTile(
+  input: Omit<DashboardTile, "id" | "layout" | "pinnedAt"> & { layout?: TileLayout }
+): Promise<DashboardTile> {
+  return withDashboardLock(async () => {
+    const tiles = await listTiles();
+    const tile: DashboardTile = {
+      ...input,
+      id: randomUUID(),
+      layout: clampLayout(input.layout ?? DEFAULT_TILE_LAYOUT),
+      pinnedAt: new Date().toISOString(),
+    };
+    await saveTiles([...tiles, tile]);
+    return tile;
+  });
+}
+
+export async function updateTile(
+  id: string,
+  patch: Partial<Pick<DashboardTile, "title" | "layout">>
+): Promise<DashboardTile | null> {
+  return withDashboardLock(async () => {
+    const tiles = await listTiles();
+    const tile = tiles.find(t => t.id === id);
+    if (!tile) return null;
+
+    const updated: DashboardTile = {
+      ...tile,
+      ...patch,
+      layout: clampLayout(patch.layout ?? tile.layout),
+    };
+    await saveTiles(tiles.map(t => (t.id === id ? updated : t)));
+    return updated;
+  });
+}
+
+// Put the tiles in the given order; tiles missing from the list keep their place after the listed ones
+export async function reorderTiles(ids: string[]): Promise<DashboardTile[]> {
+  return withDashboardLock(async () => {
+    const tiles = await listTiles();
+    const position = (tile: DashboardTile) => {
+      const index = ids.indexOf(tile.id);
+      return index === -1 ? ids.length + tiles.indexOf(tile) : index;
+    };
+    const ordered = [...tiles].sort((a, b) => position(a) - position(b));
+    await saveTiles(ordered);
+    return ordered;
+  });
+}
+
+export async function removeTile(id: string): Promise<boolean> {
+  return withDashboardLock(async () => {
+    const tiles = await listTiles();
+    if (!tiles.some(tile => tile.id === id)) return false;
+
+    await saveTiles(tiles.filter(tile => tile.id !== id));
+    return true;
+  });
+}
@@ -0,0 +1,300 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import readline from "readline";
+import { profileColumns, PROFILE_SAMPLE_SIZE, type ColumnProfile, type ColumnType, type TypeOverrides } from "@/lib/column-profile";
+import { cleanColumnDescription, type ColumnDescription, type DataDictionary } from "@/lib/data-dictionary";
+
+// Disk-backed dataset storage under data/uploads.
+// Each dataset lives in its own directory with a meta.json and its rows as newline-delimited JSON,
+// and rows are loaded lazily into memory the first time a dataset is queried.
+
+const UPLOADS_DIR = path.join(process.cwd(), "data", "uploads");
+
+export type DatasetMeta = {
+  id: string;
+  name: string;
+  filename: string;
+  source: "upload" | "sample";
+  folder?: string;
+  uploadedAt: string;
+  rowCount: number;
+  schema: ColumnProfile[];
+  typeOverrides?: TypeOverrides; // Column types set by the user, applied whenever the schema is profiled
+  dictionary?: DataDictionary; // What the columns mean, written by the user
+};
+
+// Rows of recently used datasets, so repeated queries don't hit the disk. The least recently used datasets
+// are dropped once the cache holds more rows than this in total; the most recent one is always kept.
+const MAX_CACHED_ROWS = 1_000_000;
+
+const rowCache = new Map<string, Record<string, any>[]>();
+
+function getCachedRows(id: string): Record<string, any>[] | undefined {
+  const rows = rowCache.get(id);
+  if (rows) {
+    // Re-inserting moves the dataset to the most recently used end
+    rowCache.delete(id);
+    rowCache.set(id, rows);
+  }
+  return rows;
+}
+
+function cacheRows(id: string, rows: Record<string, any>[]) {
+  rowCache.delete(id);
+  rowCache.set(id, rows);
+
+  let total = 0;
+  rowCache.forEach(cached => {
+    total += cached.length;
+  });
+  for (const [key, cached] of rowCache) {
+    if (total <= MAX_CACHED_ROWS || key === id) break;
+    rowCache.delete(key);
+    total -= cached.length;
+  }
+}
+
+function datasetDir(id: string): string {
+  // IDs end up in file paths, so never accept anything that could escape the uploads directory
+  if (!/^[a-zA-Z0-9_-]+$/.test(id)) {
+    throw new Error(`Invalid dataset ID: ${id}`);
+  }
+  return path.join(UPLOADS_DIR, id);
+}
+
+export function generateDatasetId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+export async function saveDataset(input: {
+  id?: string;
+  name?: string;
+  filename: string;
+  source?: DatasetMeta["source"];
+  rows: Record<string, any>[];
+}): Promise<DatasetMeta> {
+  const id = input.id || generateDatasetId();
+  const dir = datasetDir(id);
+
+  const meta: DatasetMeta = {
+    id,
+    name: input.name || input.filename,
+    filename: input.filename,
+    source: input.source || "upload",
+    uploadedAt: new Date().toISOString(),
+    rowCount: input.rows.length,
+    schema: profileColumns(input.rows),
+  };
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, "rows.ndjson"),
+    input.rows.map(row => JSON.stringify(row)).join("\n"),
+    "utf-8"
+  );
+  await fs.writeFile(path.join(dir, "meta.json"), JSON.stringify(meta, null, 2), "utf-8");
+
+  cacheRows(id, input.rows);
+  return meta;
+}
+
+export type DatasetWriter = {
+  id: string;
+  append: (rows: Record<string, any>[]) => Promise<void>;
+  finish: (name?: string) => Promise<DatasetMeta>;
+  abort: () => Promise<void>;
+};
+
+// Write a dataset in batches without holding all of its rows in memory.
+// The schema is profiled from a uniform random sample, and meta.json is only written by finish(),
+// so an unfinished dataset never shows up in the library.
+export async function createDatasetWriter(input: {
+  name?: string;
+  filename: string;
+  source?: DatasetMeta["source"];
+}): Promise<DatasetWriter> {
+  const id = generateDatasetId();
+  const dir = datasetDir(id);
+  const rowsPath = path.join(dir, "rows.ndjson");
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(rowsPath, "", "utf-8");
+
+  const sample: Record<string, any>[] = [];
+  let rowCount = 0;
+
+  return {
+    id,
+
+    async append(rows) {
+      if (rows.length === 0) return;
+
+      // Reservoir sampling keeps every row equally likely to be in the profiling sample
+      for (const row of rows) {
+        rowCount++;
+        if (sample.length < PROFILE_SAMPLE_SIZE) {
+          sample.push(row);
+        } else {
+          const slot = Math.floor(Math.random() * rowCount);
+          if (slot < PROFILE_SAMPLE_SIZE) sample[slot] = row;
+        }
+      }
+
+      await fs.appendFile(rowsPath, (rowCount > rows.length ? "\n" : "") + rows.map(row => JSON.stringify(row)).join("\n"), "utf-8");
+    },
+
+    async finish(name?: string) {
+      const meta: DatasetMeta = {
+        id,
+        name: name || input.name || input.filename,
+        filename: input.filename,
+        source: input.source || "upload",
+        uploadedAt: new Date().toISOString(),
+        rowCount,
+        schema: profileColumns(sample),
+      };
+      await fs.writeFile(path.join(dir, "meta.json"), JSON.stringify(meta, null, 2), "utf-8");
+      return meta;
+    },
+
+    async abort() {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+export async function getDatasetMeta(id: string): Promise<DatasetMeta | null> {
+  try {
+    const content = await fs.readFile(path.join(datasetDir(id), "meta.json"), "utf-8");
+    return JSON.parse(content) as DatasetMeta;
+  } catch {
+    return null;
+  }
+}
+
+export async function updateDatasetMeta(
+  id: string,
+  patch: Partial<Pick<DatasetMeta, "name" | "folder">>
+): Promise<DatasetMeta | null> {
+  const meta = await getDatasetMeta(id);
+  if (!meta) return null;
+
+  const updated: DatasetMeta = { ...meta, ...patch };
+  await fs.writeFile(path.join(datasetDir(id), "meta.json"), JSON.stringify(updated, null, 2), "utf-8");
+  return updated;
+}
+
+// Override a column's inferred type (null restores inference) and re-profile the dataset with it
+export async function setColumnType(
+  id: string,
+  column: string,
+  type: ColumnType | null
+): Promise<DatasetMeta | null> {
+  const [meta, rows] = await Promise.all([getDatasetMeta(id), loadDatasetRows(id)]);
+  if (!meta || !rows) return null;
+
+  const typeOverrides: TypeOverrides = { ...meta.typeOverrides };
+  if (type) {
+    typeOverrides[column] = type;
+  } else {
+    delete typeOverrides[column];
+  }
+
+  const updated: DatasetMeta = {
+    ...meta,
+    schema: profileColumns(rows, typeOverrides),
+    typeOverrides: Object.keys(typeOverrides).length > 0 ? typeOverrides : undefined,
+  };
+  await fs.writeFile(path.join(datasetDir(id), "meta.json"), JSON.stringify(updated, null, 2), "utf-8");
+  return updated;
+}
+
+// Describe a column in the data dictionary (null, or an entry with nothing in it, removes its description)
+export async function setColumnDescription(
+  id: string,
+  column: string,
+  entry: ColumnDescription | null
+): Promise<DatasetMeta | null> {
+  const meta = await getDatasetMeta(id);
+  if (!meta) return null;
+
+  const dictionary: DataDictionary = { ...meta.dictionary };
+  const cleaned = entry ? cleanColumnDescription(entry) : null;
+  if (cleaned) {
+    dictionary[column] = cleaned;
+  } else {
+    delete dictionary[column];
+  }
+
+  const updated: DatasetMeta = {
+    ...meta,
+    dictionary: Object.keys(dictionary).length > 0 ? dictionary : undefined,
+  };
+  await fs.writeFile(path.join(datasetDir(id), "meta.json"), JSON.stringify(updated, null, 2), "utf-8");
+  return updated;
+}
+
+// Loads that are still reading from disk, so concurrent queries on a dataset share one read
+const pendingLoads = new Map<string, Promise<Record<string, any>[] | null>>();
+
+// Read rows.ndjson a line at a time; reading it as one string fails for files larger than V8's string limit
+async function readRows(id: string): Promise<Record<string, any>[] | null> {
+  const stream = createReadStream(path.join(datasetDir(id), "rows.ndjson"), { encoding: "utf-8" });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    const rows: Record<string, any>[] = [];
+    for await (const line of lines) {
+      if (line.trim().length > 0) rows.push(JSON.parse(line) as Record<string, any>);
+    }
+
+    cacheRows(id, rows);
+    return rows;
+  } catch {
+    return null;
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+export async function loadDatasetRows(id: string): Promise<Record<string, any>[] | null> {
+  const cached = getCachedRows(id);
+  if (cached) return cached;
+
+  let pending = pendingLoads.get(id);
+  if (!pending) {
+    pending = readRows(id).finally(() => pendingLoads.delete(id));
+    pendingLoads.set(id, pending);
+  }
+  return pending;
+}
+
+export async function listDatasets(): Promise<DatasetMeta[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(UPLOADS_DIR);
+  } catch {
+    return [];
+  }
+
+  const metas = await Promise.all(
+    entries
+      .filter(entry => !entry.startsWith("."))
+      .map(entry => getDatasetMeta(entry))
+  );
+
+  return metas
+    .filter((meta): meta is DatasetMeta => meta !== null)
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+export async function deleteDataset(id: string): Promise<boolean> {
+  const meta = await getDatasetMeta(id);
+  if (!meta) return false;
+
+  rowCache.delete(id);
+  await fs.rm(datasetDir(id), { recursive: true, force: true });
+  return true;
+}
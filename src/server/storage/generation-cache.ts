@@ -0,0 +1,123 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { env } from "@/env";
+
+// Disk cache for LLM output under data/cache, so asking the same question again costs no model call.
+// Entries are keyed on the normalized question, a hash of the schema the prompt described and the chart type,
+// and each is stored as its own JSON file. Entries expire after a TTL and the least recently used ones are
+// evicted once the cache holds more than its size limit.
+
+const CACHE_DIR = path.join(process.cwd(), "data", "cache");
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export type CacheKind = "sql" | "chart";
+
+type CacheEntry<T> = {
+  kind: CacheKind;
+  datasetIds: string[]; // Datasets the entry was generated for, so they can be invalidated one at a time
+  createdAt: string;
+  value: T;
+};
+
+function ttlMs(): number {
+  return (env.LLM_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function entryPath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+// Questions differing only in case, spacing or trailing punctuation are the same question
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").trim().replace(/[\s?.!]+$/, "");
+}
+
+export function hashValue(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+export function cacheKey(kind: CacheKind, parts: Record<string, unknown>): string {
+  return `${kind}-${hashValue(parts).substring(0, 40)}`;
+}
+
+export async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    const entry = JSON.parse(await fs.readFile(entryPath(key), "utf8")) as CacheEntry<T>;
+    if (Date.now() - new Date(entry.createdAt).getTime() > ttlMs()) {
+      await fs.rm(entryPath(key), { force: true });
+      return null;
+    }
+
+    // The file's modification time records when it was last used, for eviction
+    const now = new Date();
+    await fs.utimes(entryPath(key), now, now).catch(() => undefined);
+    return entry.value;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, kind: CacheKind, datasetIds: string[], value: T): Promise<void> {
+  const entry: CacheEntry<T> = { kind, datasetIds, createdAt: new Date().toISOString(), value };
+
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    // Write to a temporary file first so a concurrent read never sees half an entry; the name is unique
+    // so two requests writing the same key don't share it
+    const tempPath = `${entryPath(key)}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, entryPath(key));
+    await evictEntries();
+  } catch (error) {
+    // A cache that can't be written only costs another model call next time
+    console.error("Failed to write generation cache entry:", error);
+  }
+}
+
+// Remove a single entry, e.g. one whose cached answer no longer passes validation
+export async function deleteCache(key: string): Promise<void> {
+  await fs.rm(entryPath(key), { force: true }).catch(() => undefined);
+}
+
+// Drop the least recently used entries beyond the size limit
+async function evictEntries(): Promise<void> {
+  const maxEntries = env.LLM_CACHE_MAX_ENTRIES ?? DEFAULT_MAX_ENTRIES;
+  const files = (await fs.readdir(CACHE_DIR)).filter(file => file.endsWith(".json"));
+  if (files.length <= maxEntries) return;
+
+  const entries = await Promise.all(files.map(async file => {
+    const stats = await fs.stat(path.join(CACHE_DIR, file)).catch(() => null);
+    return { file, usedAt: stats?.mtimeMs ?? 0 };
+  }));
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+
+  await Promise.all(
+    entries.slice(0, entries.length - maxEntries).map(({ file }) => fs.rm(path.join(CACHE_DIR, file), { force: true }))
+  );
+}
+
+// Remove every entry, or only those generated for one dataset; resolves with the number removed
+export async function clearCache(datasetId?: string): Promise<number> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(CACHE_DIR)).filter(file => file.endsWith(".json"));
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const file of files) {
+    const filePath = path.join(CACHE_DIR, file);
+    if (datasetId) {
+      const entry = await fs.readFile(filePath, "utf8").then(text => JSON.parse(text) as CacheEntry<unknown>).catch(() => null);
+      // Entries that can't be read can't be matched to the dataset, so they are left for the TTL and eviction
+      if (!entry || !Array.isArray(entry.datasetIds) || !entry.datasetIds.includes(datasetId)) continue;
+    }
+    await fs.rm(filePath, { force: true });
+    removed++;
+  }
+  return removed;
+}
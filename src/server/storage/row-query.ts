@@ -0,0 +1,190 @@
+import { parseNumber, parseBoolean, toISODate, type ColumnProfile } from "@/lib/column-profile";
+import { activeFilters, type QueryFilter } from "@/server/sql/filters";
+
+// Paged, sorted and filtered access to a stored dataset's rows, for browsing datasets of any size.
+// Values are compared the way the query engine reads them (numbers parsed with the column's format, dates
+// normalised), so the grid agrees with query results. The filtered and sorted row order is cached per
+// dataset, sort and filter combination, so scrolling through pages doesn't sort the dataset again.
+
+export type RowSort = { column: string; direction: "asc" | "desc" };
+
+export type RowQuery = {
+  offset: number;
+  limit: number;
+  sort?: RowSort[];
+  filters?: QueryFilter[];
+  columns?: string[]; // Only these columns are returned; all of them when omitted
+};
+
+export type RowPage = {
+  rows: Record<string, any>[];
+  total: number; // Rows matching the filters
+  offset: number;
+  columns: string[];
+};
+
+export type FilterOption =
+  | { column: string; type: "category"; availableValues: string[] }
+  | { column: string; type: "date"; minDate: string; maxDate: string }
+  | { column: string; type: "numeric"; rangeMin: number; rangeMax: number };
+
+const ORDER_CACHE_SIZE = 8;
+// Columns with more distinct values than this are identifiers or free text rather than categories
+const MAX_CATEGORY_VALUES = 1000;
+
+const orderCache = new Map<string, Uint32Array>();
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+// The value a column sorts and filters by, or null when it's empty or doesn't fit the column's type
+function typedValue(value: unknown, column: ColumnProfile): number | string | null {
+  if (isEmpty(value)) return null;
+  if (column.type === "number") return parseNumber(value, column.numberFormat);
+  if (column.type === "date") return toISODate(value) ?? String(value);
+  if (column.type === "boolean") {
+    const parsed = parseBoolean(value);
+    return parsed === null ? null : parsed ? 1 : 0;
+  }
+  return String(value);
+}
+
+function matches(row: Record<string, any>, filter: QueryFilter, column: ColumnProfile): boolean {
+  const value = row[filter.column];
+
+  if (filter.type === "category") {
+    return !isEmpty(value) && filter.values.includes(String(value));
+  }
+
+  if (filter.type === "date") {
+    const date = isEmpty(value) ? null : toISODate(value)?.substring(0, 10);
+    if (!date) return false;
+    return (!filter.start || date >= filter.start) && (!filter.end || date <= filter.end);
+  }
+
+  const number = isEmpty(value) ? null : parseNumber(value, column.numberFormat);
+  if (number === null) return false;
+  return (filter.min === null || number >= filter.min) && (filter.max === null || number <= filter.max);
+}
+
+// Indexes of the rows that pass the filters, in sort order (empty values last in either direction)
+function rowOrder(rows: Record<string, any>[], columns: Map<string, ColumnProfile>, sort: RowSort[], filters: QueryFilter[]): Uint32Array {
+  const selected: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    if (filters.every(filter => matches(rows[i], filter, columns.get(filter.column)!))) selected.push(i);
+  }
+
+  if (sort.length > 0) {
+    const keys = sort.map(({ column }) => {
+      const profile = columns.get(column)!;
+      const values: (number | string | null)[] = new Array(rows.length);
+      selected.forEach(index => {
+        values[index] = typedValue(rows[index][column], profile);
+      });
+      return values;
+    });
+
+    selected.sort((a, b) => {
+      for (let i = 0; i < sort.length; i++) {
+        const left = keys[i][a];
+        const right = keys[i][b];
+        if (left === right) continue;
+        if (left === null) return 1;
+        if (right === null) return -1;
+
+        const compared = typeof left === "number" && typeof right === "number" ? left - right : collator.compare(String(left), String(right));
+        if (compared !== 0) return sort[i].direction === "asc" ? compared : -compared;
+      }
+      return a - b;
+    });
+  }
+
+  return Uint32Array.from(selected);
+}
+
+export function queryRows(
+  datasetId: string,
+  rows: Record<string, any>[],
+  schema: ColumnProfile[],
+  query: RowQuery
+): { success: boolean; page?: RowPage; error?: string } {
+  const columns = new Map(schema.map(column => [column.name, column]));
+  const sort = query.sort ?? [];
+  const filters = activeFilters(query.filters ?? []);
+  const projection = query.columns?.length ? query.columns : schema.map(column => column.name);
+
+  const unknown = [...sort.map(s => s.column), ...filters.map(f => f.column), ...projection].find(name => !columns.has(name));
+  if (unknown !== undefined) {
+    return { success: false, error: `Column "${unknown}" does not exist in this dataset.` };
+  }
+
+  // Type overrides change how values compare, so they are part of the key
+  const key = JSON.stringify([datasetId, rows.length, schema.map(c => [c.name, c.type, c.numberFormat]), sort, filters]);
+  let order = orderCache.get(key);
+  if (order) {
+    orderCache.delete(key);
+  } else {
+    order = rowOrder(rows, columns, sort, filters);
+  }
+  orderCache.set(key, order);
+  if (orderCache.size > ORDER_CACHE_SIZE) {
+    orderCache.delete(orderCache.keys().next().value as string);
+  }
+
+  const page = Array.from(order.subarray(query.offset, query.offset + query.limit), index => {
+    const row: Record<string, any> = {};
+    projection.forEach(name => {
+      row[name] = rows[index][name];
+    });
+    return row;
+  });
+
+  return { success: true, page: { rows: page, total: order.length, offset: query.offset, columns: projection } };
+}
+
+// What the analysis panel can filter each column by, computed over every row so it works at any size
+export function filterOptions(rows: Record<string, any>[], schema: ColumnProfile[]): FilterOption[] {
+  const options: FilterOption[] = [];
+
+  for (const column of schema) {
+    if (column.type === "string") {
+      const values = new Set<string>();
+      for (const row of rows) {
+        if (!isEmpty(row[column.name])) values.add(String(row[column.name]));
+        if (values.size > MAX_CATEGORY_VALUES) break;
+      }
+
+      // Single-value columns aren't useful to filter by, and long values are descriptions rather than categories
+      const unique = [...values];
+      const averageLength = unique.reduce((sum, value) => sum + value.length, 0) / (unique.length || 1);
+      if (unique.length < 2 || unique.length > MAX_CATEGORY_VALUES || averageLength > 50 || unique.some(value => value.length > 100)) {
+        continue;
+      }
+      options.push({ column: column.name, type: "category", availableValues: unique.sort() });
+    } else if (column.type === "date") {
+      let minDate: string | null = null;
+      let maxDate: string | null = null;
+      for (const row of rows) {
+        const date = isEmpty(row[column.name]) ? null : toISODate(row[column.name])?.substring(0, 10);
+        if (!date) continue;
+        if (minDate === null || date < minDate) minDate = date;
+        if (maxDate === null || date > maxDate) maxDate = date;
+      }
+      if (minDate && maxDate) options.push({ column: column.name, type: "date", minDate, maxDate });
+    } else if (column.type === "number") {
+      let rangeMin = Infinity;
+      let rangeMax = -Infinity;
+      for (const row of rows) {
+        const number = isEmpty(row[column.name]) ? null : parseNumber(row[column.name], column.numberFormat);
+        if (number === null) continue;
+        if (number < rangeMin) rangeMin = number;
+        if (number > rangeMax) rangeMax = number;
+      }
+      if (rangeMin <= rangeMax) options.push({ column: column.name, type: "numeric", rangeMin, rangeMax });
+    }
+  }
+
+  return options;
+}